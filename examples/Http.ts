@@ -1,3 +1,12 @@
+import {
+  getSecurityParams,
+  getSecurityRequirement,
+  QuerySerialization,
+  SecurityCredentials,
+  SecurityRequirement,
+  SecurityScheme,
+  serializeQuery,
+} from "@tpdewolf/oats-generator";
 import fetch from "isomorphic-fetch";
 
 export interface HttpErrorInput {
@@ -34,10 +43,18 @@ type HttpClientInit = RequestInit & {
   beforeHook?: BeforeHook;
   /** Function that is called if an error occurs */
   onError?: ErrorHook;
+  /** Security schemes of the api (generated as `securitySchemes`) */
+  securitySchemes?: { [name: string]: SecurityScheme };
+  /** Credentials of the security schemes, only the ones required by an operation are sent */
+  credentials?: SecurityCredentials;
 };
 
 export type RequestConfig = HttpClientInit & {
   createAbort?: (abortFunction: AbortFunction) => void;
+  /** Serialization of the query params (`style`, `explode`…), generated next to the `QueryParams` types */
+  querySerialization?: QuerySerialization;
+  /** Security requirements of the operation (generated), the first one with known credentials is applied */
+  security?: ReadonlyArray<SecurityRequirement>;
 };
 
 /**
@@ -53,6 +70,7 @@ export class HttpClient {
 
   private config: RequestConfig = {};
   private token: Token;
+  private oauth2Tokens: { [key: string]: { token: string; expiresAt: number } } = {};
 
   constructor(config: HttpClientInit = {}) {
     this.config = {
@@ -69,23 +87,37 @@ export class HttpClient {
    * @returns {RequestGetFn}
    * @memberof HttpClient
    */
-  private createRequest(method: "GET"): RequestGetFn;
+  private createRequest(method: "GET" | "HEAD" | "TRACE"): RequestGetFn;
   private createRequest(method: string): RequestFn;
-  private createRequest(method: "GET" | string): RequestFn {
+  private createRequest(method: "GET" | "HEAD" | "TRACE" | string): RequestFn {
     return (url, data, config) => {
-      if (method === "GET") {
+      // These methods have no body, the data is sent in the query string
+      if (method === "GET" || method === "HEAD" || method === "TRACE") {
         const getUrl = new URL(url);
         if (data) {
-          Object.entries(data).forEach(([key, value]) => getUrl.searchParams.append(key, value));
+          // Appended to the query string of the url, if any
+          const search = serializeQuery(data, config && config.querySerialization);
+          getUrl.search = [getUrl.search.replace(/^\?/, ""), search].filter(Boolean).join("&");
         }
         return this.request(getUrl, {
           ...config,
-          method: "GET",
+          method,
         });
       }
 
       const contentType = config && config.headers && (config.headers as any)["Content-Type"];
 
+      if (contentType === "multipart/form-data") {
+        // The `Content-Type` (with its boundary) of a `FormData` is set by fetch
+        const { "Content-Type": _, ...headers } = config!.headers as Record<string, string>;
+        return this.request(url, {
+          ...config,
+          headers,
+          method,
+          body: this.createBody(data, contentType),
+        });
+      }
+
       return this.request(url, {
         ...config,
         method,
@@ -99,9 +131,15 @@ export class HttpClient {
   public put = this.createRequest("PUT");
   public patch = this.createRequest("PATCH");
   public delete = this.createRequest("DELETE");
+  public head = this.createRequest("HEAD");
+  public options = this.createRequest("OPTIONS");
+  public trace = this.createRequest("TRACE");
 
   public setToken = (token: Token) => (this.token = token);
 
+  public setCredentials = (credentials: SecurityCredentials) =>
+    (this.config.credentials = Object.assign({}, this.config.credentials, credentials));
+
   private setAuthenticationHeaders(config: RequestConfig) {
     // if authenticated set bearer token
     if (this.token) {
@@ -112,6 +150,103 @@ export class HttpClient {
     }
   }
 
+  /**
+   * Apply the credentials of the first fulfillable security requirement of an operation
+   *
+   * @private
+   * @param url
+   * @param config
+   * @returns the url, with the api keys sent in query
+   * @memberof HttpClient
+   */
+  private async applySecurity(url: string | URL, config: RequestConfig) {
+    const { securitySchemes = {}, security } = config;
+    const credentials = Object.assign(this.getTokenCredentials(securitySchemes), config.credentials);
+    const requirement = getSecurityRequirement(security, credentials);
+    if (!requirement) {
+      throw new Error(`The credentials of ${security!.map(i => Object.keys(i).join(" + ")).join(" or ")} are missing`);
+    }
+
+    const resolvedCredentials: { [name: string]: any } = {};
+    for (const name of Object.keys(requirement)) {
+      const scheme = securitySchemes[name];
+      const credential = (credentials as { [name: string]: any })[name];
+      resolvedCredentials[name] =
+        scheme && scheme.type === "oauth2" && typeof credential === "object"
+          ? await this.getClientCredentialsToken(name, scheme, credential, requirement[name])
+          : credential;
+    }
+
+    const { headers, query } = getSecurityParams(requirement, securitySchemes, resolvedCredentials);
+    config.headers = { ...config.headers, ...headers };
+
+    const search = serializeQuery(query);
+    return search ? `${url}${String(url).includes("?") ? "&" : "?"}${search}` : url;
+  }
+
+  /**
+   * Use the token of `setToken` as the credentials of the bearer schemes (`http` bearer, `oauth2` and `openIdConnect`)
+   *
+   * @private
+   * @memberof HttpClient
+   */
+  private getTokenCredentials(securitySchemes: { [name: string]: SecurityScheme }) {
+    const credentials: { [name: string]: string } = {};
+    if (!this.token) {
+      return credentials;
+    }
+
+    Object.entries(securitySchemes).forEach(([name, scheme]) => {
+      if (
+        (scheme.type === "http" && scheme.scheme.toLowerCase() === "bearer") ||
+        scheme.type === "oauth2" ||
+        scheme.type === "openIdConnect"
+      ) {
+        credentials[name] = this.token!;
+      }
+    });
+    return credentials;
+  }
+
+  /**
+   * Exchange the client id and secret for an access token (OAuth2 client-credentials flow), cached until it expires
+   *
+   * @private
+   * @memberof HttpClient
+   */
+  private async getClientCredentialsToken(
+    name: string,
+    scheme: Extract<SecurityScheme, { type: "oauth2" }>,
+    { clientId, clientSecret }: { clientId: string; clientSecret: string },
+    scopes: ReadonlyArray<string>,
+  ) {
+    const key = [name, ...scopes].join(" ");
+    const cached = this.oauth2Tokens[key];
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    const { clientCredentials } = scheme.flows;
+    if (!clientCredentials) {
+      throw new Error(`The security scheme "${name}" has no client credentials flow`);
+    }
+
+    const res = await fetch(clientCredentials.tokenUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "client_credentials",
+        client_id: clientId,
+        client_secret: clientSecret,
+        ...(scopes.length ? { scope: scopes.join(" ") } : {}),
+      }).toString(),
+    }).then(this.handleError);
+    const { access_token, expires_in = 3600 } = await res.json();
+
+    this.oauth2Tokens[key] = { token: access_token, expiresAt: Date.now() + expires_in * 1000 };
+    return access_token as string;
+  }
+
   /**
    *
    *
@@ -157,7 +292,12 @@ export class HttpClient {
       await beforeHook(this);
     }
 
-    this.setAuthenticationHeaders(config);
+    // Without explicit credentials, the token of `setToken` is sent as before
+    if (config.security && config.credentials) {
+      url = await this.applySecurity(url, config);
+    } else {
+      this.setAuthenticationHeaders(config);
+    }
 
     const requestFn = fetch(baseUrl + url, config)
       .then(this.handleError)
@@ -178,7 +318,7 @@ export class HttpClient {
   private handleSuccess(res: Response, config: RequestConfig) {
     const { returnType = "json" } = config;
 
-    if (res.status === 204 || res.status === 201) {
+    if (res.status === 204 || res.status === 201 || config.method === "HEAD") {
       return res;
     }
 
@@ -217,6 +357,13 @@ export class HttpClient {
         return JSON.stringify(body);
       case "application/x-www-form-urlencoded":
         return new URLSearchParams(body);
+      case "multipart/form-data":
+        return Object.entries(body).reduce((formData, [key, value]) => {
+          formData.append(key, value instanceof Blob ? value : String(value));
+          return formData;
+        }, new FormData());
+      case "text/plain":
+        return String(body);
       default:
         return JSON.stringify(body);
     }
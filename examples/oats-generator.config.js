@@ -9,6 +9,10 @@ module.exports = {
     file: "examples/petstore.yaml",
     output: "examples/petstoreFromFileSpecWithConfig.ts",
   },
+  "petstore-output-dir": {
+    file: "examples/petstore.yaml",
+    outputDir: "examples/petstoreFromFileSpecSplit",
+  },
   "petstore-github": {
     github: "OAI:OpenAPI-Specification:master:examples/v3.0/petstore.yaml",
     output: "examples/petstoreFromGithubSpecWithConfig.ts",
@@ -20,22 +24,44 @@ module.exports = {
   "petstore-custom-fetch": {
     file: "examples/petstore.yaml",
     output: "examples/petstoreFromFileSpecWithCustomFetch.ts",
+    stripDeleteParam: false,
     customImport: `
       import { HttpClient, RequestConfig } from './Http'
       export const clientInstance = new HttpClient();
     `,
-    customGenerator: ({ componentName, verb, route, typeNames, paramsTypes }) => {
-      if (verb === "get") {
+    customGenerator: ({
+      componentName,
+      verb,
+      route,
+      typeNames,
+      paramsTypes,
+      querySerialization,
+      contentTypes,
+      security,
+      servers,
+    }) => {
+      // Request config of the operation, overridable by the caller
+      const requestConfig = [
+        querySerialization && `querySerialization: ${querySerialization}`,
+        contentTypes.body &&
+          contentTypes.body !== "application/json" &&
+          `headers: { "Content-Type": "${contentTypes.body}" }`,
+        security && `security: ${JSON.stringify(security)}, securitySchemes`,
+        servers && `baseUrl: ${JSON.stringify(servers[0].url)}`,
+      ].filter(Boolean);
+      const config = requestConfig.length ? `{ ${requestConfig.join(", ")}, ...config }` : "config";
+
+      if (verb === "get" || verb === "head" || verb === "trace") {
         return `
           export const ${camel(componentName)} = (${paramsTypes ? paramsTypes + "," : ""}params?: ${
           typeNames.query
-        }, config?: RequestConfig) => clientInstance.get<${typeNames.response}>(\`${route}\`, params, config)
+        }, config?: RequestConfig) => clientInstance.${verb}<${typeNames.response}>(\`${route}\`, params, ${config})
         `;
       } else {
         return `
           export const ${camel(componentName)} = (${paramsTypes ? paramsTypes + "," : ""}body: ${
           typeNames.body
-        }, config?: RequestConfig) => clientInstance.${verb}<${typeNames.response}>(\`${route}\`, body, config)
+        }, config?: RequestConfig) => clientInstance.${verb}<${typeNames.response}>(\`${route}\`, body, ${config})
         `;
       }
     },
@@ -59,11 +85,11 @@ module.exports = {
       import { HttpClient, RequestConfig } from './Http'
     `,
     customGenerator: ({ componentName, verb, route, typeNames, paramsTypes }) => {
-      if (verb === "get") {
+      if (verb === "get" || verb === "head" || verb === "trace") {
         return `
           ${camel(componentName)}: (${paramsTypes ? paramsTypes + "," : ""}params?: ${
           typeNames.query
-        }, config?: RequestConfig) => client.get<${typeNames.response}>(\`${route}\`, params, config),
+        }, config?: RequestConfig) => client.${verb}<${typeNames.response}>(\`${route}\`, params, config),
         `;
       } else {
         return `
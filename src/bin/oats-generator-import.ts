@@ -1,6 +1,6 @@
 import chalk from "chalk";
 import program from "commander";
-import { existsSync, readFileSync, unlinkSync, writeFileSync, mkdirSync } from "fs";
+import { existsSync, readFileSync, readdirSync, unlinkSync, writeFileSync, mkdirSync } from "fs";
 import inquirer from "inquirer";
 import difference from "lodash/difference";
 import path, { join, parse } from "path";
@@ -8,23 +8,53 @@ import request from "request";
 import { homedir } from "os";
 import slash from "slash";
 
-import importOpenApi from "../scripts/import-open-api";
-import { OperationObject, ParameterObject } from "openapi3-ts";
+import importOpenApi, { importOpenApiFiles, Verbs } from "../scripts/import-open-api";
+import { OperationObject, ParameterObject, SecurityRequirementObject, ServerObject } from "openapi3-ts";
 
 const log = console.log; // tslint:disable-line:no-console
 
 export interface Options {
   output: string;
+  /**
+   * Output directory: a module per model (`models/Pet.ts`…) and per tag of the operations, with an `index.ts` barrel
+   */
+  outputDir?: string;
   file?: string;
   url?: string;
   github?: string;
   transformer?: string;
   validation?: boolean;
+  enumStyle?: "union" | "enum" | "const";
+  hoistObjects?: boolean;
+  namingStrategy?: "suffix" | "prefix" | "error";
+  /**
+   * Preferred content types of the responses and request bodies, e.g. `["application/json", "text/*"]`
+   */
+  contentTypes?: string[];
+  /**
+   * Strip the last path param of the `delete` operations from the route (`true` by default)
+   */
+  stripDeleteParam?: boolean;
+  /**
+   * Http methods of the generated operations, e.g. `["get", "post"]` (every method by default)
+   */
+  verbs?: string[];
 }
 
 export type AdvancedOptions = Options & {
   customImport?: string;
+  /**
+   * Typescript type of a `format` (or `type:format`), e.g. `{ "date-time": "Date", "integer:int64": "bigint" }`
+   *
+   * An import can be given if the type is not global: `{ type: "Decimal", import: 'import { Decimal } from "decimal.js";' }`
+   */
+  scalarMapping?: {
+    [format: string]: string | { type: string; import?: string };
+  };
   customProps?: {
+    /**
+     * Default server url, as a typescript expression (e.g. `"http://my-pet-store.com"`), declared as `defaultServerUrl`
+     */
     base?: string;
   };
   customOperationNameGenerator?: (data: { verb: string; route: string }) => string;
@@ -36,14 +66,77 @@ export type AdvancedOptions = Options & {
     description: string;
     typeNames: {
       response: string;
+      /**
+       * Map of the response types, indexed by status code (`200`, `"2XX"`, `default`…), to use with `ResponseUnion`
+       */
+      responses?: string;
       query: string;
       body: string;
+      /**
+       * Interface of the header params (`Accept`, `Content-Type` and `Authorization` excepted), if any
+       */
+      headers?: string;
+      /**
+       * Interface of the cookie params, if any
+       */
+      cookies?: string;
     };
     errorTypes: string;
     headerParams: ParameterObject[];
     operation: OperationObject;
+    /**
+     * Identifiers of the path params (e.g. `petId` for `{pet-id}`), as used in `route` and `paramsTypes`
+     */
     paramsInPath: string[];
     paramsTypes: string;
+    /**
+     * Last path param of a `delete` operation, stripped from `route` and `paramsTypes` (see `stripDeleteParam`)
+     */
+    deleteParam?: { name: string; required: boolean; type: string };
+    /**
+     * Security requirements of the operation (or of the spec), to give to the http client with `securitySchemes`
+     */
+    security?: SecurityRequirementObject[];
+    /**
+     * Servers of the operation (or of its path), overriding the ones of the spec (`servers` constant)
+     */
+    servers?: ServerObject[];
+    /**
+     * Name of the generated query serialization (`style`, `explode`…), to give to `serializeQuery`
+     */
+    querySerialization?: string;
+    /**
+     * Content types chosen for the response and the request body (to set the `Accept` and `Content-Type` headers)
+     */
+    contentTypes: {
+      response?: string;
+      body?: string;
+    };
+  }) => string;
+  /**
+   * Template of the webhooks (OpenAPI 3.1) and of the callbacks of the operations, to implement their receiving side
+   */
+  customWebhookGenerator?: (data: {
+    /**
+     * Name of the handler in `WebhookHandlers`
+     */
+    name: string;
+    componentName: string;
+    verb: string;
+    /**
+     * Name of the webhook, or runtime expression of the callback (e.g. `{$request.body#/callbackUrl}`)
+     */
+    route: string;
+    description: string;
+    typeNames: {
+      body: string;
+      response: string;
+    };
+    operation: OperationObject;
+    /**
+     * Name of the callback and `operationId` of the operation declaring it (callbacks only)
+     */
+    callback?: { name: string; operationId?: string };
   }) => string;
 };
 
@@ -52,11 +145,32 @@ export interface ExternalConfigFile {
 }
 
 program.option("-o, --output [value]", "output file destination");
+program.option("--output-dir [value]", "output directory (a module per model and per tag, with an `index.ts` barrel)");
 program.option("-f, --file [value]", "input file (yaml or json openapi specs)");
 program.option("-u, --url [value]", "url to spec (yaml or json openapi specs)");
 program.option("-g, --github [value]", "github path (format: `owner:repo:branch:path`)");
 program.option("-t, --transformer [value]", "transformer function path");
 program.option("--validation", "add the validation step (provided by ibm-openapi-validator)");
+program.option(
+  "--enum-style [value]",
+  "render enums as inline unions (`union`), `enum` declarations or `const` objects",
+);
+program.option("--hoist-objects", "declare inline objects as named interfaces (e.g. `OrderShippingAddress`)");
+program.option(
+  "--naming-strategy [value]",
+  "resolve type name collisions with a numeric `suffix`, a `prefix` (`SchemaPet`) or an `error`",
+);
+program.option(
+  "--content-types [value]",
+  "preferred content types of the responses and request bodies, comma separated (e.g. `application/json,text/*`)",
+  (value: string) => value.split(","),
+);
+program.option("--no-strip-delete-param", "keep the last path param of the delete operations in the route");
+program.option(
+  "--verbs [value]",
+  "http methods of the generated operations, comma separated (e.g. `get,post`)",
+  (value: string) => value.split(","),
+);
 program.option("--config [value]", "override flags by a config file");
 program.parse(process.argv);
 
@@ -65,7 +179,60 @@ const createSuccessMessage = (backend?: string) =>
 
 const successWithoutOutputMessage = chalk.yellow("Success! No output path specified; printed to standard output.");
 
-const importSpecs = async (options: AdvancedOptions) => {
+/**
+ * Write the modules generated in the `--output-dir` mode, and remove the stale ones of the previous runs
+ *
+ * Only the files with the `Generated by oats-generator` header are removed.
+ *
+ * @param outputDir
+ * @param files code of the modules, indexed by path
+ */
+const writeOutputDir = (outputDir: string, files: { [path: string]: string }) => {
+  const root = join(process.cwd(), outputDir);
+
+  ["", "models"]
+    .filter(dir => existsSync(join(root, dir)))
+    .forEach(dir =>
+      readdirSync(join(root, dir))
+        .filter(file => file.endsWith(".ts") && !files[slash(join(dir, file))])
+        .filter(file => readFileSync(join(root, dir, file), "utf-8").startsWith("/* Generated by oats-generator */"))
+        .forEach(file => unlinkSync(join(root, dir, file))),
+    );
+
+  Object.entries(files).forEach(([file, data]) => {
+    const dirname = path.dirname(join(root, file));
+    if (!existsSync(dirname)) {
+      mkdirSync(dirname, { recursive: true });
+    }
+    writeFileSync(join(root, file), data);
+  });
+};
+
+const enumStyles: Array<NonNullable<AdvancedOptions["enumStyle"]>> = ["union", "enum", "const"];
+
+const namingStrategies: Array<NonNullable<AdvancedOptions["namingStrategy"]>> = ["suffix", "prefix", "error"];
+
+/**
+ * Check the values of the options that can't be checked by their type (flags, js config files)
+ *
+ * @param options
+ */
+const validateOptions = (options: AdvancedOptions) => {
+  if (options.enumStyle !== undefined && !enumStyles.includes(options.enumStyle)) {
+    throw new Error(`Unknown \`enumStyle\`: ${options.enumStyle} (expected ${enumStyles.join(", ")})`);
+  }
+  if (options.namingStrategy !== undefined && !namingStrategies.includes(options.namingStrategy)) {
+    throw new Error(`Unknown \`namingStrategy\`: ${options.namingStrategy} (expected ${namingStrategies.join(", ")})`);
+  }
+  const unknownVerbs = (options.verbs || []).filter(verb => !Verbs.includes(verb.toLowerCase()));
+  if (unknownVerbs.length) {
+    throw new Error(`Unknown http methods in \`verbs\`: ${unknownVerbs.join(", ")} (expected ${Verbs.join(", ")})`);
+  }
+};
+
+const importSpecs = async (options: AdvancedOptions): Promise<string | { [path: string]: string }> => {
+  validateOptions(options);
+  const generate = options.outputDir ? importOpenApiFiles : importOpenApi;
   const transformer = options.transformer ? require(join(process.cwd(), options.transformer)) : undefined;
 
   if (!options.file && !options.url && !options.github) {
@@ -73,20 +240,30 @@ const importSpecs = async (options: AdvancedOptions) => {
   }
 
   if (options.file) {
-    const data = readFileSync(join(process.cwd(), options.file), "utf-8");
+    const source = join(process.cwd(), options.file);
+    const data = readFileSync(source, "utf-8");
     const { ext } = parse(options.file);
     const format = [".yaml", ".yml"].includes(ext.toLowerCase()) ? "yaml" : "json";
 
-    return importOpenApi({
+    return generate({
       data,
       format,
       transformer,
       validation: options.validation,
       customImport: options.customImport,
+      scalarMapping: options.scalarMapping,
       customProps: options.customProps,
       customGenerator: options.customGenerator,
       customGeneratorWrap: options.customGeneratorWrap,
       customOperationNameGenerator: options.customOperationNameGenerator,
+      customWebhookGenerator: options.customWebhookGenerator,
+      enumStyle: options.enumStyle,
+      hoistObjects: options.hoistObjects,
+      namingStrategy: options.namingStrategy,
+      contentTypes: options.contentTypes,
+      stripDeleteParam: options.stripDeleteParam,
+      verbs: options.verbs,
+      source,
     });
   } else if (options.url) {
     const { url } = options;
@@ -114,16 +291,25 @@ const importSpecs = async (options: AdvancedOptions) => {
         }
 
         resolve(
-          importOpenApi({
+          generate({
             data: body,
             format,
             transformer,
             validation: options.validation,
             customImport: options.customImport,
+            scalarMapping: options.scalarMapping,
             customProps: options.customProps,
             customGenerator: options.customGenerator,
             customGeneratorWrap: options.customGeneratorWrap,
             customOperationNameGenerator: options.customOperationNameGenerator,
+            customWebhookGenerator: options.customWebhookGenerator,
+            enumStyle: options.enumStyle,
+            hoistObjects: options.hoistObjects,
+            namingStrategy: options.namingStrategy,
+            contentTypes: options.contentTypes,
+            stripDeleteParam: options.stripDeleteParam,
+            verbs: options.verbs,
+            source: url,
           }),
         );
       });
@@ -203,16 +389,24 @@ const importSpecs = async (options: AdvancedOptions) => {
         const format =
           github.toLowerCase().includes(".yaml") || github.toLowerCase().includes(".yml") ? "yaml" : "json";
         resolve(
-          importOpenApi({
+          generate({
             data: body.data.repository.object.text,
             format,
             transformer,
             validation: options.validation,
             customImport: options.customImport,
+            scalarMapping: options.scalarMapping,
             customProps: options.customProps,
             customGenerator: options.customGenerator,
             customGeneratorWrap: options.customGeneratorWrap,
             customOperationNameGenerator: options.customOperationNameGenerator,
+            customWebhookGenerator: options.customWebhookGenerator,
+            enumStyle: options.enumStyle,
+            hoistObjects: options.hoistObjects,
+            namingStrategy: options.namingStrategy,
+            contentTypes: options.contentTypes,
+            stripDeleteParam: options.stripDeleteParam,
+            verbs: options.verbs,
           }),
         );
       });
@@ -242,7 +436,10 @@ if (program.config) {
     .forEach(([backend, options]) => {
       importSpecs(options)
         .then(data => {
-          if (options.output) {
+          if (typeof data !== "string") {
+            writeOutputDir(options.outputDir!, data);
+            log(createSuccessMessage(backend));
+          } else if (options.output) {
             writeFileSync(join(process.cwd(), options.output), data);
             log(createSuccessMessage(backend));
           } else {
@@ -259,7 +456,10 @@ if (program.config) {
   // Use flags as configuration
   importSpecs((program as any) as Options)
     .then(data => {
-      if (program.output) {
+      if (typeof data !== "string") {
+        writeOutputDir(program.outputDir, data);
+        log(createSuccessMessage());
+      } else if (program.output) {
         const outputFile = join(process.cwd(), program.output);
         const dirname = path.dirname(outputFile);
         if (!existsSync(dirname)) {
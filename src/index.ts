@@ -0,0 +1,3 @@
+export * from "./runtime/responses";
+export * from "./runtime/security";
+export * from "./runtime/serialize-query";
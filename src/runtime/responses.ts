@@ -0,0 +1,12 @@
+/**
+ * Discriminated union of the responses of an operation, from its generated `<Operation>Responses` map
+ *
+ * @example
+ * ```
+ * type ShowPetByIdResult = ResponseUnion<ShowPetByIdResponses>;
+ * // => { status: 200; data: Pet } | { status: "default"; data: Error }
+ * ```
+ */
+export type ResponseUnion<Responses> = {
+  [Status in keyof Responses]: { status: Status; data: Responses[Status] };
+}[keyof Responses];
@@ -0,0 +1,132 @@
+/**
+ * Security scheme of the api, as described in `#/components/securitySchemes` (generated as `securitySchemes`)
+ *
+ * @ref https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.0.3.md#security-scheme-object
+ */
+export type SecurityScheme =
+  | { type: "apiKey"; name: string; in: "header" | "query" | "cookie" }
+  | { type: "http"; scheme: string; bearerFormat?: string }
+  | { type: "oauth2"; flows: { clientCredentials?: { tokenUrl: string } } }
+  | { type: "openIdConnect"; openIdConnectUrl: string };
+
+/**
+ * Security requirement of an operation: the scopes of every needed scheme, indexed by scheme name
+ */
+export interface SecurityRequirement {
+  [scheme: string]: ReadonlyArray<string>;
+}
+
+/**
+ * Credentials of a security scheme
+ *
+ * - `apiKey`: the key
+ * - `http` basic: the username and the password
+ * - `http` bearer, `openIdConnect`: the token
+ * - `oauth2`: the token, or the client id and secret of the client-credentials flow
+ */
+export type Credentials<Scheme = SecurityScheme> = Scheme extends { type: "http"; scheme: "basic" }
+  ? { username: string; password: string }
+  : Scheme extends { type: "oauth2" }
+  ? string | { clientId: string; clientSecret: string }
+  : string;
+
+/**
+ * Credentials of the security schemes, indexed by scheme name
+ *
+ * @example
+ * ```
+ * const credentials: SecurityCredentials<SecuritySchemes> = { api_key: "secret" };
+ * ```
+ */
+export type SecurityCredentials<Schemes = { [name: string]: SecurityScheme }> = {
+  [Name in keyof Schemes]?: Credentials<Schemes[Name]>;
+};
+
+/**
+ * Return the first requirement of an operation whose credentials are all known
+ *
+ * An operation without requirements (or with an empty `{}` requirement) needs no credentials.
+ *
+ * @param requirements alternative requirements of the operation
+ * @param credentials
+ */
+export const getSecurityRequirement = (
+  requirements: ReadonlyArray<SecurityRequirement> = [],
+  credentials: { [scheme: string]: unknown } = {},
+): SecurityRequirement | undefined =>
+  requirements.length === 0
+    ? {}
+    : requirements.find(requirement => Object.keys(requirement).every(scheme => credentials[scheme] !== undefined));
+
+const base64Chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Encode a string in base64, from its UTF-8 bytes
+ *
+ * `btoa` only supports latin-1 strings (and is not a global of the older node versions).
+ *
+ * @param value
+ */
+const encodeBase64 = (value: string) => {
+  const bytes = (encodeURIComponent(value).match(/%[0-9A-F]{2}|[^%]/g) || []).map(i =>
+    i.length === 3 ? parseInt(i.slice(1), 16) : i.charCodeAt(0),
+  );
+
+  let output = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+    const length = Math.min(bytes.length - i, 3) + 1; // 4 characters for 3 bytes, padded with `=`
+    output += [18, 12, 6, 0].map((shift, j) => (j < length ? base64Chars[(chunk >> shift) & 63] : "=")).join("");
+  }
+  return output;
+};
+
+/**
+ * Return the headers and query params needed by a security requirement
+ *
+ * The oauth2 credentials must already be exchanged for a token. The cookie `apiKey` are sent in a `Cookie` header,
+ * which browsers forbid: in a browser, they must be set in the cookie jar (`document.cookie`) instead.
+ *
+ * @param requirement
+ * @param schemes security schemes of the api (generated as `securitySchemes`)
+ * @param credentials
+ */
+export const getSecurityParams = (
+  requirement: SecurityRequirement,
+  schemes: { [name: string]: SecurityScheme },
+  credentials: { [scheme: string]: string | { username: string; password: string } | undefined },
+) =>
+  Object.keys(requirement).reduce<{ headers: { [name: string]: string }; query: { [name: string]: string } }>(
+    (output, name) => {
+      const scheme = schemes[name];
+      const credential = credentials[name];
+      if (!scheme || credential === undefined) {
+        throw new Error(`The credentials of the security scheme "${name}" are missing`);
+      }
+
+      if (scheme.type === "apiKey") {
+        const key = String(credential);
+        if (scheme.in === "query") {
+          return { ...output, query: { ...output.query, [scheme.name]: key } };
+        }
+        if (scheme.in === "cookie") {
+          const cookie = `${scheme.name}=${encodeURIComponent(key)}`;
+          const { Cookie: cookies } = output.headers;
+          return { ...output, headers: { ...output.headers, Cookie: cookies ? `${cookies}; ${cookie}` : cookie } };
+        }
+        return { ...output, headers: { ...output.headers, [scheme.name]: key } };
+      }
+
+      if (scheme.type === "http" && scheme.scheme.toLowerCase() === "basic") {
+        const { username, password } = credential as { username: string; password: string };
+        return {
+          ...output,
+          headers: { ...output.headers, Authorization: `Basic ${encodeBase64(`${username}:${password}`)}` },
+        };
+      }
+
+      // `http` bearer, `oauth2` and `openIdConnect` use a bearer token
+      return { ...output, headers: { ...output.headers, Authorization: `Bearer ${credential}` } };
+    },
+    { headers: {}, query: {} },
+  );
@@ -0,0 +1,108 @@
+/**
+ * Serialization of a query parameter, as described by its open-api `style`, `explode` and `allowReserved`
+ *
+ * @ref https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.0.3.md#style-values
+ */
+export interface QueryParamSerialization {
+  style?: "form" | "spaceDelimited" | "pipeDelimited" | "deepObject";
+  explode?: boolean;
+  allowReserved?: boolean;
+}
+
+/**
+ * Serialization of every query parameter, indexed by name (missing parameters use `form` + `explode`)
+ */
+export interface QuerySerialization {
+  [name: string]: QueryParamSerialization;
+}
+
+const delimiters = {
+  form: ",",
+  spaceDelimited: "%20",
+  pipeDelimited: "|",
+};
+
+/**
+ * Encode a key or a value of the query string
+ *
+ * @param value
+ * @param allowReserved keep the reserved characters (`:/?#[]@!$&'()*+,;=`) as is
+ */
+const encode = (value: any, allowReserved = false) => {
+  const encoded = encodeURIComponent(value instanceof Date ? value.toISOString() : String(value));
+  return allowReserved
+    ? encoded.replace(/%(3A|2F|3F|23|5B|5D|40|21|24|26|27|28|29|2A|2B|2C|3B|3D)/gi, decodeURIComponent)
+    : encoded;
+};
+
+const isObject = (value: any) => value !== null && typeof value === "object" && !(value instanceof Date);
+
+/**
+ * Serialize a `deepObject` parameter (`color[R]=100&color[G]=200`)
+ *
+ * @param key
+ * @param value
+ * @param allowReserved
+ */
+const serializeDeepObject = (key: string, value: any, allowReserved: boolean): string[] =>
+  Object.entries(value).reduce<string[]>((output, [name, item]) => {
+    const itemKey = `${key}[${encode(name, allowReserved)}]`;
+    if (item === undefined || item === null) {
+      return output;
+    }
+    if (Array.isArray(item)) {
+      return [...output, ...item.map(i => `${itemKey}=${encode(i, allowReserved)}`)];
+    }
+    if (isObject(item)) {
+      return [...output, ...serializeDeepObject(itemKey, item, allowReserved)];
+    }
+    return [...output, `${itemKey}=${encode(item, allowReserved)}`];
+  }, []);
+
+/**
+ * Serialize a query param into `key=value` pairs
+ *
+ * @param name
+ * @param value
+ * @param serialization
+ */
+const serializeParam = (name: string, value: any, serialization: QueryParamSerialization = {}): string[] => {
+  const { style = "form", explode = style === "form" || style === "deepObject", allowReserved = false } = serialization;
+  const key = encode(name);
+  const delimiter = style === "deepObject" ? delimiters.form : delimiters[style];
+
+  if (isObject(value) && !Array.isArray(value)) {
+    if (style === "deepObject") {
+      return serializeDeepObject(key, value, allowReserved);
+    }
+    const entries = Object.entries(value).filter(([_, item]) => item !== undefined && item !== null);
+    return explode
+      ? entries.map(([itemKey, item]) => `${encode(itemKey, allowReserved)}=${encode(item, allowReserved)}`)
+      : [`${key}=${entries.map(entry => entry.map(i => encode(i, allowReserved)).join(delimiter)).join(delimiter)}`];
+  }
+
+  if (Array.isArray(value)) {
+    return explode
+      ? value.map(item => `${key}=${encode(item, allowReserved)}`)
+      : [`${key}=${value.map(item => encode(item, allowReserved)).join(delimiter)}`];
+  }
+
+  return [`${key}=${encode(value, allowReserved)}`];
+};
+
+/**
+ * Serialize query params into a query string (without the leading `?`)
+ *
+ * @example
+ * ```
+ * serializeQuery({ tags: ["cat", "dog"], limit: 10 }, { tags: { style: "pipeDelimited", explode: false } });
+ * // => "tags=cat|dog&limit=10"
+ * ```
+ * @param params
+ * @param serialization serialization of the params (generated by oats-generator)
+ */
+export const serializeQuery = (params: { [name: string]: any } = {}, serialization: QuerySerialization = {}) =>
+  Object.entries(params)
+    .filter(([_, value]) => value !== undefined && value !== null)
+    .reduce<string[]>((output, [name, value]) => [...output, ...serializeParam(name, value, serialization[name])], [])
+    .join("&");
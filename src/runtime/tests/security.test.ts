@@ -0,0 +1,86 @@
+import { getSecurityParams, getSecurityRequirement, SecurityRequirement, SecurityScheme } from "../security";
+
+describe("runtime/security", () => {
+  const schemes: { [name: string]: SecurityScheme } = {
+    api_key: { type: "apiKey", name: "X-API-Key", in: "header" },
+    query_key: { type: "apiKey", name: "key", in: "query" },
+    session: { type: "apiKey", name: "session", in: "cookie" },
+    tenant: { type: "apiKey", name: "tenant", in: "cookie" },
+    basic: { type: "http", scheme: "Basic" },
+    bearer: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+    oauth: { type: "oauth2", flows: { clientCredentials: { tokenUrl: "https://auth/token" } } },
+  };
+
+  describe("getSecurityRequirement", () => {
+    it("should not require credentials without requirements", () => {
+      expect(getSecurityRequirement(undefined, {})).toEqual({});
+      expect(getSecurityRequirement([], {})).toEqual({});
+    });
+
+    it("should return the first requirement with known credentials", () => {
+      expect(getSecurityRequirement([{ oauth: ["read"] }, { api_key: [] }], { api_key: "secret" })).toEqual({
+        api_key: [],
+      });
+    });
+
+    it("should return an empty (optional) requirement", () => {
+      expect(getSecurityRequirement([{ oauth: ["read"] }, {}], {})).toEqual({});
+    });
+
+    it("should return undefined if no requirement can be fulfilled", () => {
+      expect(getSecurityRequirement([{ api_key: [], bearer: [] }], { api_key: "secret" })).toBeUndefined();
+    });
+  });
+
+  describe("getSecurityParams", () => {
+    ([
+      { requirement: { api_key: [] }, credentials: { api_key: "secret" }, expected: { "X-API-Key": "secret" } },
+      {
+        requirement: { session: [], tenant: [] },
+        credentials: { session: "a b", tenant: "pets" },
+        expected: { Cookie: "session=a%20b; tenant=pets" },
+      },
+      {
+        requirement: { basic: [] },
+        credentials: { basic: { username: "user", password: "pass" } },
+        expected: { Authorization: "Basic dXNlcjpwYXNz" },
+      },
+      { requirement: { bearer: [] }, credentials: { bearer: "token" }, expected: { Authorization: "Bearer token" } },
+      {
+        requirement: { oauth: ["read"] },
+        credentials: { oauth: "token" },
+        expected: { Authorization: "Bearer token" },
+      },
+    ] as Array<{
+      requirement: SecurityRequirement;
+      credentials: Parameters<typeof getSecurityParams>[2];
+      expected: { [name: string]: string };
+    }>).forEach(({ requirement, credentials, expected }) =>
+      it(`should return the headers of ${Object.keys(requirement).join(" + ")}`, () => {
+        expect(getSecurityParams(requirement, schemes, credentials)).toEqual({ headers: expected, query: {} });
+      }),
+    );
+
+    it("should encode the basic credentials in UTF-8", () => {
+      const getAuthorization = (username: string, password: string) =>
+        getSecurityParams({ basic: [] }, schemes, { basic: { username, password } }).headers.Authorization;
+
+      expect(getAuthorization("josé", "pässwörd")).toEqual("Basic am9zw6k6cMOkc3N3w7ZyZA==");
+      expect(getAuthorization("用户", "密码")).toEqual("Basic 55So5oi3OuWvhueggQ==");
+      expect(getAuthorization("a", "")).toEqual("Basic YTo=");
+    });
+
+    it("should return the query params of an apiKey in query", () => {
+      expect(getSecurityParams({ query_key: [] }, schemes, { query_key: "secret" })).toEqual({
+        headers: {},
+        query: { key: "secret" },
+      });
+    });
+
+    it("should throw if a credential is missing", () => {
+      expect(() => getSecurityParams({ api_key: [] }, schemes, {})).toThrow(
+        'The credentials of the security scheme "api_key" are missing',
+      );
+    });
+  });
+});
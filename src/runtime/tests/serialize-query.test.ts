@@ -0,0 +1,45 @@
+import { serializeQuery } from "../serialize-query";
+
+describe("runtime/serialize-query", () => {
+  const id = [3, 4, 5];
+  const color = { R: 100, G: 200 };
+
+  [
+    { serialization: undefined, params: { id: 5 }, expected: "id=5" },
+    { serialization: undefined, params: { id }, expected: "id=3&id=4&id=5" },
+    { serialization: undefined, params: { color }, expected: "R=100&G=200" },
+    { serialization: { style: "form", explode: false }, params: { id }, expected: "id=3,4,5" },
+    { serialization: { style: "form", explode: false }, params: { color }, expected: "color=R,100,G,200" },
+    { serialization: { style: "spaceDelimited", explode: false }, params: { id }, expected: "id=3%204%205" },
+    { serialization: { style: "spaceDelimited", explode: true }, params: { id }, expected: "id=3&id=4&id=5" },
+    { serialization: { style: "pipeDelimited", explode: false }, params: { id }, expected: "id=3|4|5" },
+    { serialization: { style: "deepObject" }, params: { color }, expected: "color[R]=100&color[G]=200" },
+    {
+      serialization: { style: "deepObject" },
+      params: { filter: { name: "rex", owner: { id: 1 } } },
+      expected: "filter[name]=rex&filter[owner][id]=1",
+    },
+    { serialization: undefined, params: { q: "a b&c" }, expected: "q=a%20b%26c" },
+    { serialization: { allowReserved: true }, params: { path: "/pets?a=1" }, expected: "path=/pets?a=1" },
+    {
+      serialization: undefined,
+      params: { date: new Date("2020-01-01") },
+      expected: "date=2020-01-01T00%3A00%3A00.000Z",
+    },
+  ].forEach(({ serialization, params, expected }) =>
+    it(`should serialize ${JSON.stringify(params)} with ${JSON.stringify(serialization)}`, () => {
+      const name = Object.keys(params)[0];
+      expect(serializeQuery(params, serialization ? { [name]: serialization as any } : {})).toEqual(expected);
+    }),
+  );
+
+  it("should ignore undefined and null params", () => {
+    expect(serializeQuery({ a: undefined, b: null, c: 1 })).toEqual("c=1");
+  });
+
+  it("should serialize multiple params", () => {
+    expect(
+      serializeQuery({ tags: ["cat", "dog"], limit: 10 }, { tags: { style: "pipeDelimited", explode: false } }),
+    ).toEqual("tags=cat|dog&limit=10");
+  });
+});
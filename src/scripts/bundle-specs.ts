@@ -0,0 +1,287 @@
+import { pascal } from "case";
+import { readFileSync } from "fs";
+import cloneDeep from "lodash/cloneDeep";
+import { OpenAPIObject, SchemaObject } from "openapi3-ts";
+import { basename, dirname, extname, resolve as resolvePath } from "path";
+import request from "request";
+import { resolve as resolveUrl } from "url";
+import YAML from "yamljs";
+
+/**
+ * How a node of the spec must be handled during the bundling
+ *
+ * - `schema`: schema object, external `$ref` are lifted into `#/components/schemas`
+ * - `schemas`: map or list of schema objects
+ * - `other`: any other open-api object, external `$ref` are inlined
+ * - `data`: raw values (`example`, `default`…), never traversed
+ */
+type NodeKind = "schema" | "schemas" | "other" | "data";
+
+const schemaListKeys = [
+  "properties",
+  "patternProperties",
+  "$defs",
+  "dependentSchemas",
+  "allOf",
+  "oneOf",
+  "anyOf",
+  "prefixItems",
+];
+const schemaKeys = [
+  "items",
+  "additionalItems",
+  "additionalProperties",
+  "not",
+  "if",
+  "then",
+  "else",
+  "contains",
+  "propertyNames",
+  "unevaluatedItems",
+  "unevaluatedProperties",
+];
+
+const isUrl = (location: string) => /^https?:\/\//i.test(location);
+
+/**
+ * Read a file from the file system or from an url
+ *
+ * @param location absolute path or url
+ */
+export const readSource = (location: string) =>
+  new Promise<string>((resolve, reject) => {
+    if (!isUrl(location)) {
+      try {
+        resolve(readFileSync(location, "utf-8"));
+      } catch (err) {
+        reject(err);
+      }
+      return;
+    }
+
+    request(
+      { method: "GET", url: location, headers: { "user-agent": "oats-generator-importer" } },
+      (error, response, body) => {
+        if (error) {
+          return reject(error);
+        }
+        if (response.statusCode >= 400) {
+          return reject(new Error(`${response.statusCode} ${response.statusMessage}`));
+        }
+        resolve(body);
+      },
+    );
+  });
+
+/**
+ * Parse a yaml/json document, the format is deduced from the extension
+ *
+ * @param data
+ * @param location
+ */
+const parseSource = (data: string, location: string) => {
+  if ([".yaml", ".yml"].includes(extname(location.split(/[?#]/)[0]).toLowerCase())) {
+    return YAML.parse(data);
+  }
+  try {
+    return JSON.parse(data);
+  } catch (err) {
+    return YAML.parse(data);
+  }
+};
+
+export const escapePointer = (key: string) => key.replace(/~/g, "~0").replace(/\//g, "~1");
+const unescapePointer = (key: string) => decodeURIComponent(key.replace(/~1/g, "/").replace(/~0/g, "~"));
+
+/**
+ * Return the value targeted by a JSON pointer (`/components/schemas/Pet`)
+ *
+ * @param document
+ * @param pointer
+ */
+const getByPointer = (document: any, pointer: string) =>
+  pointer
+    .split("/")
+    .slice(1)
+    .map(unescapePointer)
+    .reduce((node, key) => (node === undefined || node === null ? undefined : node[key]), document);
+
+/**
+ * Bundle every external `$ref` (`./schemas/pet.yaml#/Pet`) into a single spec.
+ *
+ * - schemas are lifted into `#/components/schemas` (with a collision-free name)
+ * - every other object (path items, parameters, responses…) is inlined
+ *
+ * Note: this method returns a new spec, `specs` is not mutated.
+ *
+ * @param specs
+ * @param source path or url of the spec, used to resolve relative `$ref`
+ * @param read custom reader (file system or http by default)
+ */
+export const bundleSpecs = async (
+  specs: OpenAPIObject,
+  source: string,
+  read: (location: string) => Promise<string> = readSource,
+): Promise<OpenAPIObject> => {
+  const root = isUrl(source) ? source : resolvePath(source);
+  const documents: { [location: string]: Promise<any> } = {};
+  const componentSchemas: { [name: string]: SchemaObject } = (specs.components && specs.components.schemas) || {};
+  const liftedSchemas: { [name: string]: SchemaObject } = {};
+  const liftedNames: { [ref: string]: string } = {};
+  const inlining: string[] = [];
+  let aliases: string[] = [];
+
+  const load = (location: string, from: string) => {
+    if (!documents[location]) {
+      documents[location] = read(location)
+        .then(data => parseSource(data, location))
+        .catch(err => {
+          throw new Error(`Unable to load "${location}" (referenced from ${from}): ${err.message || err}`);
+        });
+    }
+    return documents[location];
+  };
+
+  const toAbsolute = ($ref: string, base: string) => {
+    const [file, pointer = ""] = $ref.split("#");
+    const location = !file
+      ? base
+      : isUrl(base) || isUrl(file)
+      ? resolveUrl(base, file)
+      : resolvePath(dirname(base), file);
+    return { location, pointer, key: `${location}#${pointer}` };
+  };
+
+  const resolveRef = async ($ref: string, base: string, from: string) => {
+    const { location, pointer, key } = toAbsolute($ref, base);
+    const target = location === root ? getByPointer(specs, pointer) : getByPointer(await load(location, from), pointer);
+    if (target === undefined) {
+      throw new Error(
+        `Unable to resolve $ref "${$ref}": "${pointer || "/"}" not found in ${location} (referenced from ${from})`,
+      );
+    }
+    return { location, pointer, key, target };
+  };
+
+  const getFreeName = (location: string, pointer: string) => {
+    const segments = pointer.split("/").filter(Boolean);
+    const name = pascal(
+      segments.length
+        ? unescapePointer(segments[segments.length - 1])
+        : basename(location.split(/[?#]/)[0], extname(location.split(/[?#]/)[0])),
+    );
+    const takenNames = [...Object.keys(componentSchemas), ...Object.keys(liftedSchemas)].map(i => pascal(i));
+    let freeName = name;
+    for (let i = 2; takenNames.includes(freeName); i++) {
+      freeName = `${name}${i}`;
+    }
+    return freeName;
+  };
+
+  const liftSchema = async ($ref: string, base: string, from: string): Promise<string> => {
+    const { location, pointer, key, target } = await resolveRef($ref, base, from);
+    if (location === root) {
+      return `#${pointer}`;
+    }
+    if (liftedNames[key]) {
+      if (aliases.includes(key)) {
+        throw new Error(`Circular $ref: ${[...aliases, key].join(" -> ")}`);
+      }
+      return `#/components/schemas/${liftedNames[key]}`;
+    }
+
+    const name = getFreeName(location, pointer);
+    liftedNames[key] = name;
+    liftedSchemas[name] = {};
+
+    const previousAliases = aliases;
+    aliases = target && typeof target.$ref === "string" ? [...aliases, key] : [];
+    liftedSchemas[name] = await walk(target, location, "schema", pointer);
+    aliases = previousAliases;
+
+    return `#/components/schemas/${name}`;
+  };
+
+  const inline = async ($ref: string, base: string, from: string) => {
+    const { location, pointer, key, target } = await resolveRef($ref, base, from);
+    if (location === root) {
+      return { $ref: `#${pointer}` };
+    }
+    if (inlining.includes(key)) {
+      throw new Error(`Circular $ref: ${[...inlining, key].join(" -> ")}`);
+    }
+
+    inlining.push(key);
+    const output = await walk(target, location, "other", pointer);
+    inlining.pop();
+
+    return output;
+  };
+
+  const getChildKind = (kind: NodeKind, path: string, key: string): NodeKind => {
+    if (kind === "schemas") {
+      return "schema";
+    }
+    if (kind === "schema") {
+      return schemaListKeys.includes(key) ? "schemas" : schemaKeys.includes(key) ? "schema" : "data";
+    }
+    if (path === "/components" && key === "schemas") {
+      return "schemas";
+    }
+    if (key === "example") {
+      return "data";
+    }
+    return key === "schema" ? "schema" : "other";
+  };
+
+  const walk = async (node: any, base: string, kind: NodeKind, path: string): Promise<any> => {
+    if (kind === "data" || !node || typeof node !== "object") {
+      return node;
+    }
+
+    if (typeof node.$ref === "string" && !(base === root && node.$ref.startsWith("#"))) {
+      const from = `${base}#${path}`;
+      const componentName = base === root && (path.match(/^\/components\/schemas\/([^/]+)$/) || [])[1];
+      if (componentName) {
+        // Schemas of `#/components/schemas` keep their names, even if they are defined in another file
+        const { location, pointer, target } = await resolveRef(node.$ref, base, from);
+        return walk(target, location, "schema", pointer);
+      }
+      return kind === "schema"
+        ? { ...node, $ref: await liftSchema(node.$ref, base, from) }
+        : inline(node.$ref, base, from);
+    }
+
+    if (Array.isArray(node)) {
+      const items = [];
+      for (let i = 0; i < node.length; i++) {
+        items.push(await walk(node[i], base, getChildKind(kind, path, String(i)), `${path}/${i}`));
+      }
+      return items;
+    }
+
+    const output: { [key: string]: any } = {};
+    for (const [key, value] of Object.entries(node)) {
+      output[key] = await walk(value, base, getChildKind(kind, path, key), `${path}/${escapePointer(key)}`);
+    }
+    return output;
+  };
+
+  // Reserve the names of the external schemas already declared in `#/components/schemas`
+  Object.entries(componentSchemas).forEach(([name, schema]) => {
+    if (typeof schema.$ref === "string" && !schema.$ref.startsWith("#")) {
+      liftedNames[toAbsolute(schema.$ref, root).key] = name;
+    }
+  });
+
+  const output: OpenAPIObject = await walk(cloneDeep(specs), root, "other", "");
+
+  if (Object.keys(liftedSchemas).length) {
+    output.components = {
+      ...output.components,
+      schemas: { ...(output.components && output.components.schemas), ...liftedSchemas },
+    };
+  }
+
+  return output;
+};
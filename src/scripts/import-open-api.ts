@@ -1,15 +1,20 @@
-import { pascal } from "case";
+import { camel, pascal } from "case";
 import chalk from "chalk";
 import openApiValidator from "ibm-openapi-validator";
+import cloneDeep from "lodash/cloneDeep";
 import get from "lodash/get";
 import groupBy from "lodash/groupBy";
 import isEmpty from "lodash/isEmpty";
 import set from "lodash/set";
 import uniq from "lodash/uniq";
+import { posix } from "path";
 import prettier from "prettier";
 
 import {
   ComponentsObject,
+  ContentObject,
+  HeaderObject,
+  MediaTypeObject,
   OpenAPIObject,
   OperationObject,
   ParameterObject,
@@ -18,15 +23,205 @@ import {
   RequestBodyObject,
   ResponseObject,
   SchemaObject,
+  SecurityRequirementObject,
+  ServerObject,
 } from "openapi3-ts";
 
 import swagger2openapi from "swagger2openapi";
 
 import YAML from "yamljs";
 import { AdvancedOptions } from "../bin/oats-generator-import";
+import { bundleSpecs, escapePointer } from "./bundle-specs";
 
 const IdentifierRegexp = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/;
 
+/**
+ * Header params ignored by the specification, they are described by the `content` and the `security` of the operation
+ *
+ * @ref https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.0.3.md#fixed-fields-10
+ */
+const IgnoredHeaderParams = ["accept", "content-type", "authorization"];
+
+/**
+ * Words that can't be used as identifiers
+ */
+const ReservedWords = [
+  "break case catch class const continue debugger default delete do else enum export extends false finally",
+  "for function if import in instanceof new null return super switch this throw true try typeof var void",
+  "while with yield let static implements interface package private protected public await",
+]
+  .join(" ")
+  .split(" ");
+
+/**
+ * Global values of javascript and of the browsers, never imported from a generated module (`throw new Error()`…)
+ */
+const GlobalValues = [
+  "Array ArrayBuffer Blob Boolean DataView Date Error EvalError File FormData Function Headers Intl JSON Map Math",
+  "Number Object Promise Proxy RangeError ReferenceError Reflect RegExp Request Response Set String Symbol",
+  "SyntaxError TypeError URIError URL URLSearchParams WeakMap WeakSet console decodeURIComponent encodeURIComponent",
+  "fetch isFinite isNaN parseFloat parseInt undefined window",
+]
+  .join(" ")
+  .split(" ");
+
+/**
+ * Http methods of the operations of a `PathItemObject`
+ */
+export const Verbs = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+/**
+ * Content types preferred by default when a response or a request body has several of them
+ *
+ * `application/json` also matches the vendor JSON types (`application/problem+json`…)
+ */
+export const DefaultContentTypes = [
+  "application/json",
+  "multipart/form-data",
+  "application/x-www-form-urlencoded",
+  "text/plain",
+  "application/octet-stream",
+];
+
+/**
+ * Arrays with a fixed length (`minItems === maxItems`) up to this length are rendered as tuples
+ */
+const MaxTupleLength = 10;
+
+/**
+ * Shared state of a generation run, passed along every type resolver
+ */
+export interface GeneratorContext {
+  /**
+   * Name of the type currently resolved, used to name hoisted declarations (e.g. `PetStatus`)
+   */
+  name?: string;
+  /**
+   * How enums are rendered (`union` keeps them inline)
+   */
+  enumStyle: NonNullable<AdvancedOptions["enumStyle"]>;
+  /**
+   * Hoisted enum declarations, indexed by type name
+   */
+  enums: { [name: string]: { description?: string; members: Array<[string, string]> } };
+  /**
+   * Hoist inline objects into named interfaces
+   */
+  hoistObjects: boolean;
+  /**
+   * Hoisted object declarations, indexed by type name
+   */
+  objects: { [name: string]: { description?: string; type: string } };
+  /**
+   * Names already declared by `#/components/schemas`
+   */
+  schemaNames: string[];
+  /**
+   * Declared type names, indexed by their origin (`#/components/schemas/Pet`, `#/paths/~1pets/get:QueryParams`…)
+   */
+  names: { [key: string]: string };
+  /**
+   * How a name collision is resolved (`suffix`: `Pet2`, `prefix`: `SchemaPet`, `error`: throw)
+   */
+  namingStrategy: NonNullable<AdvancedOptions["namingStrategy"]>;
+  /**
+   * JSON pointer of the schema currently resolved (e.g. `#/components/schemas/Pet/properties/tags`)
+   */
+  pointer: string;
+  /**
+   * Inline schemas currently resolved (from the outermost), used to detect circular schemas
+   */
+  ancestors: Array<{
+    schema: SchemaObject;
+    pointer: string;
+    name?: string;
+    declaredName?: string;
+    hoistedName?: string;
+  }>;
+  /**
+   * `read` (responses) omits `writeOnly` properties, `write` (requests) omits `readOnly` properties
+   */
+  mode?: "read" | "write";
+  /**
+   * `$ref` of the schemas declared with a read and a write (`Input` suffixed) variant
+   */
+  readWriteRefs: string[];
+  /**
+   * Custom types of formats
+   */
+  scalarMapping: NonNullable<AdvancedOptions["scalarMapping"]>;
+  /**
+   * Security requirements of the spec, used by the operations without `security`
+   */
+  security?: SecurityRequirementObject[];
+  /**
+   * Servers of the current path item, overriding the ones of the spec
+   */
+  servers?: ServerObject[];
+  /**
+   * Strip the last path param of the `delete` operations from the route (passed to the `<Delete>` component instead)
+   */
+  stripDeleteParam: boolean;
+  /**
+   * Preferred content types of the responses and request bodies (patterns like `image/*` are supported)
+   */
+  contentTypes: string[];
+  /**
+   * Imports needed by the generated types
+   */
+  imports: string[];
+  /**
+   * Issues found during the generation, printed at the end
+   */
+  warnings: string[];
+}
+
+/**
+ * Create a fresh generation context
+ *
+ * @param options
+ */
+export const createContext = (options: Partial<GeneratorContext> = {}): GeneratorContext => ({
+  enumStyle: "union",
+  enums: {},
+  hoistObjects: false,
+  objects: {},
+  pointer: "#",
+  ancestors: [],
+  schemaNames: [],
+  names: {},
+  namingStrategy: "suffix",
+  readWriteRefs: [],
+  scalarMapping: {},
+  contentTypes: DefaultContentTypes,
+  stripDeleteParam: true,
+  imports: [],
+  warnings: [],
+  ...options,
+});
+
+/**
+ * Return a context to resolve a nested type (property, parameter…)
+ *
+ * @param context
+ * @param name name of the nested element, appended to the current name
+ */
+const withName = (context: GeneratorContext, name: string): GeneratorContext => ({
+  ...context,
+  name: context.name === undefined ? undefined : context.name + pascal(name),
+});
+
+/**
+ * Return a context to resolve a child schema
+ *
+ * @param context
+ * @param segments path of the child schema, appended to the current JSON pointer
+ */
+const withPointer = (context: GeneratorContext, ...segments: Array<string | number>): GeneratorContext => ({
+  ...context,
+  pointer: [context.pointer, ...segments.map(segment => escapePointer(String(segment)))].join("/"),
+});
+
 /**
  * Discriminator helper for `ReferenceObject`
  *
@@ -36,18 +231,54 @@ export const isReference = (property: any): property is ReferenceObject => {
   return Boolean(property && property.$ref);
 };
 
+/**
+ * Return true if a schema accepts `null`: `nullable`, a `"null"` type (OpenAPI 3.1) or a `null` value of its `enum`
+ *
+ * @param item
+ */
+export const isNullable = (item: SchemaObject) =>
+  Boolean(
+    item.nullable ||
+      (Array.isArray(item.type) && item.type.includes("null")) ||
+      (item.enum && item.enum.includes(null)),
+  );
+
 /**
  * Return the typescript equivalent of open-api data type
  *
  * @param item
  * @ref https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.0.1.md#data-types
  */
-export const getScalar = (item: SchemaObject) => {
+export const getScalar = (item: SchemaObject, context: GeneratorContext = createContext()): string => {
   if (!item) {
     return "";
   }
 
-  const nullable = item.nullable ? " | null" : "";
+  const nullable = isNullable(item) ? " | null" : "";
+
+  if (item.const !== undefined) {
+    return JSON.stringify(item.const) + nullable;
+  }
+
+  // OpenAPI 3.1 multiple types (e.g. `type: ["string", "null"]`)
+  if (Array.isArray(item.type)) {
+    const types: string[] = item.type;
+    const enumValues = item.enum && item.enum.filter(value => value !== null);
+    const values = uniq(
+      types
+        .filter(type => type !== "null")
+        .map(type => getScalar({ ...item, type, nullable: false, enum: enumValues }, context)),
+    );
+    if (isNullable(item)) {
+      values.push("null");
+    }
+    return values.join(" | ") || "any";
+  }
+
+  const mappedScalar = getMappedScalar(item, context);
+  if (mappedScalar) {
+    return mappedScalar + nullable;
+  }
 
   switch (item.type) {
     case "int32":
@@ -57,13 +288,19 @@ export const getScalar = (item: SchemaObject) => {
     case "long":
     case "float":
     case "double":
+      if (item.enum) {
+        return (getEnum(item, context) || getEnumUnion(item)) + nullable;
+      }
       return "number" + nullable;
 
     case "boolean":
-      return "boolean" + nullable;
+      return (item.enum ? getEnumUnion(item) : "boolean") + nullable;
 
     case "array":
-      return getArray(item) + nullable;
+      return getArray(item, context) + nullable;
+
+    case "null":
+      return "null";
 
     case "string":
     case "byte":
@@ -72,66 +309,349 @@ export const getScalar = (item: SchemaObject) => {
     case "dateTime":
     case "date-time":
     case "password":
-      return (item.enum ? `"${item.enum.join(`" | "`)}"` : "string") + nullable;
+      if (item.enum) {
+        return (getEnum(item, context) || getEnumUnion(item)) + nullable;
+      }
+      return "string" + nullable;
 
     case "object":
     default:
-      return getObject(item) + nullable;
+      return getObject(item, context) + nullable;
+  }
+};
+
+/**
+ * Return the custom type of a format (from `scalarMapping`) and register its import
+ *
+ * `type:format` keys have the priority over `format` keys.
+ *
+ * @param item
+ * @param context
+ */
+export const getMappedScalar = (item: SchemaObject, context: GeneratorContext) => {
+  if (!item.format || item.enum) {
+    return;
+  }
+
+  const mapping = context.scalarMapping[`${item.type}:${item.format}`] || context.scalarMapping[item.format];
+  if (!mapping) {
+    return;
+  }
+  if (typeof mapping === "string") {
+    return mapping;
+  }
+  if (mapping.import && !context.imports.includes(mapping.import)) {
+    context.imports.push(mapping.import);
+  }
+  return mapping.type;
+};
+
+/**
+ * Return the literal union of an enum (e.g. `"a" | "b"` or `1 | 2`)
+ *
+ * `null` values are ignored, the nullability is given by `isNullable`.
+ *
+ * @param item schema with an `enum`
+ */
+export const getEnumUnion = (item: SchemaObject) =>
+  (item.enum || [])
+    .filter(value => value !== null)
+    .map(value => JSON.stringify(value))
+    .join(" | ") || "never";
+
+/**
+ * Return a valid identifier to use as enum member name
+ *
+ * @param name
+ */
+const getEnumMemberName = (name: string) => {
+  const sanitized = name.replace(/[^a-zA-Z0-9_$]/g, "_");
+  if (!sanitized) {
+    return "Empty";
+  }
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+};
+
+/**
+ * Return the members (`[key, value]`) of an enum declaration.
+ *
+ * Member names are taken from `x-enum-varnames` (or `x-enumNames`) if defined.
+ *
+ * @param item schema with an `enum`
+ */
+export const getEnumMembers = (item: SchemaObject) => {
+  const varnames: string[] = item["x-enum-varnames"] || item["x-enumNames"] || [];
+  const usedKeys: string[] = [];
+
+  return (item.enum || []).reduce<Array<[string, string]>>((members, value, index) => {
+    if (value === null) {
+      return members;
+    }
+    const baseKey = getEnumMemberName(varnames[index] || pascal(String(value)));
+    let key = baseKey;
+    for (let i = 2; usedKeys.includes(key); i++) {
+      key = `${baseKey}${i}`;
+    }
+    usedKeys.push(key);
+    return [...members, [key, JSON.stringify(value)]];
+  }, []);
+};
+
+/**
+ * Hoist an inline enum into a named declaration and return its name.
+ *
+ * Returns `undefined` if enums are rendered as inline unions, if there is no name available
+ * or if the enum has a single value (kept as a literal type).
+ *
+ * @param item schema with an `enum`
+ * @param context
+ */
+export const getEnum = (item: SchemaObject, context: GeneratorContext) => {
+  // Single value enums (e.g. discriminator values) are kept as literal types
+  if (context.enumStyle === "union" || !context.name || !item.enum || item.enum.filter(i => i !== null).length < 2) {
+    return;
+  }
+
+  const members = getEnumMembers(item);
+
+  // Reuse an identical declaration, otherwise find a free name
+  let name = context.name;
+  for (let i = 2; ; i++) {
+    const existing = context.enums[name];
+    if (!isDeclaredName(name, context) && (!existing || JSON.stringify(existing.members) === JSON.stringify(members))) {
+      break;
+    }
+    name = `${context.name}${i}`;
+  }
+
+  context.enums[name] = { description: item.description, members };
+  return name;
+};
+
+/**
+ * Suffix of the type names of every supported `#/components/*`
+ */
+const componentSuffixes: { [kind: string]: string } = {
+  schemas: "",
+  responses: "Response",
+  requestBodies: "RequestBody",
+  parameters: "Parameter",
+  headers: "Header",
+};
+
+/**
+ * Prefix of the type names of every supported `#/components/*`, used to resolve collisions
+ */
+const componentPrefixes: { [kind: string]: string } = {
+  schemas: "Schema",
+  responses: "Response",
+  requestBodies: "RequestBody",
+  parameters: "Parameter",
+  headers: "Header",
+};
+
+/**
+ * Return true if a type is already declared with this name (hoisted declarations excluded)
+ *
+ * @param name
+ * @param context
+ */
+const isDeclaredName = (name: string, context: GeneratorContext) =>
+  context.schemaNames.includes(name) || Object.values(context.names).includes(name);
+
+/**
+ * Register the type name of a declaration and return it.
+ *
+ * A name already used by another declaration is resolved with `context.namingStrategy`,
+ * a declaration always gets the same name.
+ *
+ * @param key origin of the declaration (`#/components/schemas/Pet`, `#/paths/~1pets/get:QueryParams`…)
+ * @param name
+ * @param context
+ */
+export const registerName = (key: string, name: string, context: GeneratorContext) => {
+  if (context.names[key]) {
+    return context.names[key];
+  }
+
+  const isTaken = (i: string) => isDeclaredName(i, context) || Boolean(context.enums[i] || context.objects[i]);
+  let freeName = name;
+  if (isTaken(name)) {
+    if (context.namingStrategy === "error") {
+      const origin = Object.keys(context.names).find(i => context.names[i] === name) || name;
+      throw new Error(`"${name}" is declared twice: ${origin} and ${key}`);
+    }
+    // `#/components/requestBodies/Pet` => `RequestBodyPetRequestBody`, operation types => `OperationListPetsResponse`
+    const [, kind] = key.match(/^#\/components\/(\w+)\//) || [];
+    const base = context.namingStrategy === "prefix" ? `${componentPrefixes[kind] || "Operation"}${name}` : name;
+    freeName = base;
+    for (let i = 2; isTaken(freeName); i++) {
+      freeName = `${base}${i}`;
+    }
   }
+
+  context.names[key] = freeName;
+  return freeName;
 };
 
+/**
+ * Register the type names of every component, they have the priority over the operation types
+ *
+ * @param components
+ * @param context
+ */
+export const registerComponentNames = (components: ComponentsObject = {}, context: GeneratorContext) =>
+  Object.keys(componentSuffixes).forEach(kind =>
+    Object.keys(components[kind] || {}).forEach(name => getRef(`#/components/${kind}/${name}`, context)),
+  );
+
 /**
  * Return the output type from the $ref
  *
  * @param $ref
+ * @param context
  */
-export const getRef = ($ref: ReferenceObject["$ref"]) => {
-  if ($ref.startsWith("#/components/schemas")) {
-    return pascal($ref.replace("#/components/schemas/", ""));
-  } else if ($ref.startsWith("#/components/responses")) {
-    return pascal($ref.replace("#/components/responses/", "")) + "Response";
-  } else if ($ref.startsWith("#/components/parameters")) {
-    return pascal($ref.replace("#/components/parameters/", "")) + "Parameter";
-  } else if ($ref.startsWith("#/components/requestBodies")) {
-    return pascal($ref.replace("#/components/requestBodies/", "")) + "RequestBody";
-  } else {
+export const getRef = ($ref: ReferenceObject["$ref"], context: GeneratorContext = createContext()): string => {
+  const [, kind, name] = $ref.match(/^#\/components\/(\w+)\/(.+)$/) || [];
+  if (!kind || componentSuffixes[kind] === undefined) {
     throw new Error("This library only resolve $ref that are include into `#/components/*` for now");
   }
+
+  const typeName = registerName($ref, pascal(name) + componentSuffixes[kind], context);
+  if (context.mode === "write" && context.readWriteRefs.includes($ref)) {
+    return registerName(`${$ref}:Input`, `${typeName}Input`, context);
+  }
+  return typeName;
 };
 
 /**
  * Return the output type from an array
  *
+ * - `prefixItems` and fixed length arrays (`minItems === maxItems`) are rendered as tuples
+ * - an array without `items` is rendered as `unknown[]` (with a warning)
+ *
  * @param item item with type === "array"
  */
-export const getArray = (item: SchemaObject): string => {
-  if (item.items) {
-    if (!isReference(item.items) && (item.items.oneOf || item.items.allOf || item.items.enum)) {
-      return `(${resolveValue(item.items)})[]`;
-    } else {
-      return `${resolveValue(item.items)}[]`;
+export const getArray = (item: SchemaObject, context: GeneratorContext = createContext()): string => {
+  // OpenAPI 3.1 tuple (`items` describes the elements after `prefixItems`)
+  if (item.prefixItems) {
+    const prefixItems: Array<SchemaObject | ReferenceObject> = item.prefixItems;
+    const elements = prefixItems.map((schema, i) => resolveValue(schema, withPointer(context, "prefixItems", i)));
+    if (item.items) {
+      elements.push(`...${getArray({ items: item.items }, context)}`);
     }
+    return `[${elements.join(", ")}]`;
+  }
+
+  if (!item.items) {
+    context.warnings.push(`The array ${context.pointer} has no \`items\`, it is typed as \`unknown[]\``);
+    return "unknown[]";
+  }
+
+  const value = hoistObject(resolveValue(item.items, withPointer(context, "items")), withName(context, "item"));
+
+  // Fixed length array (e.g. coordinates)
+  if (
+    !Array.isArray(item.items) &&
+    item.minItems !== undefined &&
+    item.minItems === item.maxItems &&
+    item.minItems <= MaxTupleLength
+  ) {
+    return `[${Array(item.minItems)
+      .fill(value)
+      .join(", ")}]`;
+  }
+
+  if (hasTopLevelOperator(value, "|") || hasTopLevelOperator(value, "&")) {
+    return `(${value})[]`;
   } else {
-    throw new Error("All arrays must have an `items` key define");
+    return `${value}[]`;
+  }
+};
+
+/**
+ * Return true if the property is not part of the current mode (`readOnly` in requests, `writeOnly` in responses)
+ *
+ * @param property
+ * @param context
+ */
+const isOmittedProperty = (property: SchemaObject | ReferenceObject, context: GeneratorContext) =>
+  (context.mode === "read" && Boolean((property as SchemaObject).writeOnly)) ||
+  (context.mode === "write" && Boolean((property as SchemaObject).readOnly));
+
+/**
+ * Return true if the operator (`|` or `&`) is used at the top level of the type
+ *
+ * @example
+ * ```
+ * hasTopLevelOperator("A | B", "|"); // true
+ * hasTopLevelOperator("{ a: A | B }", "|"); // false
+ * ```
+ * @param type
+ * @param operator
+ */
+export const hasTopLevelOperator = (type: string, operator: "|" | "&") => {
+  let depth = 0;
+  let quote = "";
+  for (let i = 0; i < type.length; i++) {
+    const char = type[i];
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = "";
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ("{([<".includes(char)) {
+      depth++;
+    } else if ("})]>".includes(char)) {
+      depth--;
+    } else if (char === operator && depth === 0) {
+      return true;
+    }
   }
+  return false;
 };
 
 /**
  * Return the output type from an object
  *
+ * - `allOf` is rendered as an intersection, `oneOf` and `anyOf` as unions
+ * - properties next to a composition are intersected with it
+ * - `not` can't be expressed in typescript, a schema only defined by `not` is `unknown`
+ *
  * @param item item with type === "object"
  */
-export const getObject = (item: SchemaObject): string => {
+export const getObject = (item: SchemaObject, context: GeneratorContext = createContext()): string => {
   if (isReference(item)) {
-    return getRef(item.$ref);
+    return getRef(item.$ref, context);
   }
 
-  if (item.allOf) {
-    return item.allOf.map(resolveValue).join(" & ");
+  if (item.allOf || item.oneOf || item.anyOf) {
+    const { allOf, oneOf, anyOf, ...siblings } = item;
+    const types = (allOf || []).map((schema, i) => resolveValue(schema, withPointer(context, "allOf", i)));
+    ([
+      ["oneOf", oneOf],
+      ["anyOf", anyOf],
+    ] as const).forEach(([key, schemas]) => {
+      if (schemas) {
+        types.push(uniq(schemas.map((schema, i) => resolveValue(schema, withPointer(context, key, i)))).join(" | "));
+      }
+    });
+    // Properties defined next to the composition are applied to every members
+    if (!isEmpty(siblings.properties) || siblings.additionalProperties) {
+      types.push(getObject(siblings, context));
+    }
+
+    return types.length === 1
+      ? types[0]
+      : types.map(type => (hasTopLevelOperator(type, "|") ? `(${type})` : type)).join(" & ");
   }
 
-  if (item.oneOf) {
-    return item.oneOf.map(resolveValue).join(" | ");
+  // `not` can't be expressed in typescript
+  if (item.not && !item.type && !item.properties && !item.additionalProperties) {
+    return "unknown";
   }
 
   if (!item.type && !item.properties && !item.additionalProperties) {
@@ -151,11 +671,18 @@ export const getObject = (item: SchemaObject): string => {
   let output = "{\n";
   if (item.properties) {
     output += Object.entries(item.properties)
+      .filter(([_, prop]) => !isOmittedProperty(prop, context))
       .map(([key, prop]: [string, ReferenceObject | SchemaObject]) => {
-        const doc = isReference(prop) ? "" : formatDescription(prop.description, 2);
+        const doc = isReference(prop) ? "" : formatDescription(getDocumentation(prop), 2);
         const isRequired = (item.required || []).includes(key);
         const processedKey = IdentifierRegexp.test(key) ? key : `"${key}"`;
-        return `  ${doc}${processedKey}${isRequired ? "" : "?"}: ${resolveValue(prop)};`;
+        const propContext = withPointer(withName(context, key), "properties", key);
+        const value = hoistObject(
+          resolveValue(prop, propContext),
+          propContext,
+          isReference(prop) ? "" : prop.description,
+        );
+        return `  ${doc}${processedKey}${isRequired ? "" : "?"}: ${value};`;
       })
       .join("\n");
   }
@@ -164,8 +691,11 @@ export const getObject = (item: SchemaObject): string => {
     if (item.properties) {
       output += "\n";
     }
+    const valueContext = withPointer(withName(context, "value"), "additionalProperties");
     output += `  [key: string]: ${
-      item.additionalProperties === true ? "any" : resolveValue(item.additionalProperties)
+      item.additionalProperties === true
+        ? "any"
+        : hoistObject(resolveValue(item.additionalProperties, valueContext), valueContext)
     };`;
   }
 
@@ -178,76 +708,364 @@ export const getObject = (item: SchemaObject): string => {
 };
 
 /**
- * Resolve the value of a schema object to a proper type definition.
- * @param schema
- */
-export const resolveValue = (schema: SchemaObject) => (isReference(schema) ? getRef(schema.$ref) : getScalar(schema));
-
-/**
- * Extract responses / request types from open-api specs
+ * Hoist an inline object type into a named interface and return its name.
  *
- * @param responsesOrRequests reponses or requests object from open-api specs
+ * Structurally identical objects share the same declaration. The type is returned untouched
+ * if hoisting is disabled, if there is no name available or if the type is not an object literal.
+ *
+ * @param type resolved type of the schema
+ * @param context
+ * @param description documentation of the declaration
  */
-export const getResReqTypes = (
-  responsesOrRequests: Array<[string, ResponseObject | ReferenceObject | RequestBodyObject]>,
-) =>
-  uniq(
-    responsesOrRequests.map(([_, res]) => {
-      if (!res) {
-        return "void";
-      }
-
-      if (isReference(res)) {
-        return getRef(res.$ref);
-      }
+export const hoistObject = (type: string, context: GeneratorContext, description?: string) => {
+  if (!context.hoistObjects || !context.name) {
+    return type;
+  }
+  const nullable = type.endsWith(" | null") ? " | null" : "";
+  const literal = type.slice(0, type.length - nullable.length);
+  if (
+    !literal.startsWith("{\n") ||
+    !literal.endsWith("}") ||
+    hasTopLevelOperator(literal, "|") ||
+    hasTopLevelOperator(literal, "&")
+  ) {
+    return type;
+  }
 
-      if (res.content) {
-        for (let contentType of Object.keys(res.content)) {
-          if (contentType.startsWith("application/json") || contentType.startsWith("application/octet-stream")) {
-            const schema = res.content[contentType].schema!;
-            return resolveValue(schema);
-          }
-        }
-        return "void";
-      }
+  const existing = Object.entries(context.objects).find(([_, object]) => object.type === literal);
+  if (existing) {
+    return existing[0] + nullable;
+  }
 
-      return "void";
-    }),
-  ).join(" | ");
+  const name = getFreeObjectName(context.name, context);
+  context.objects[name] = { description: description || undefined, type: literal };
+  return name + nullable;
+};
 
 /**
- * Return every params in a path
+ * Return a name not used yet by a declaration
  *
- * @example
- * ```
- * getParamsInPath("/pet/{category}/{name}/");
- * // => ["category", "name"]
- * ```
- * @param path
+ * @param name
+ * @param context
  */
-export const getParamsInPath = (path: string) => {
-  let n;
-  const output = [];
-  const templatePathRegex = /\{(\w+)}/g;
-  // tslint:disable-next-line:no-conditional-assignment
-  while ((n = templatePathRegex.exec(path)) !== null) {
-    output.push(n[1]);
+const getFreeObjectName = (name: string, context: GeneratorContext) => {
+  let freeName = name;
+  for (let i = 2; context.objects[freeName] || context.enums[freeName] || isDeclaredName(freeName, context); i++) {
+    freeName = `${name}${i}`;
   }
-
-  return output;
+  return freeName;
 };
 
 /**
- * Import and parse the openapi spec from a yaml/json
+ * Return the name of a schema referenced by one of its descendants
  *
- * @param data raw data of the spec
- * @param format format of the spec
+ * Inline schemas are hoisted into a named declaration to break the cycle, this is not possible without name.
+ *
+ * @param index index of the schema in `context.ancestors`
+ * @param context
  */
-const importSpecs = (data: string, extension: "yaml" | "json"): Promise<OpenAPIObject> => {
-  const schema = extension === "yaml" ? YAML.parse(data) : JSON.parse(data);
+const getCircularName = (index: number, context: GeneratorContext) => {
+  const ancestor = context.ancestors[index];
+  if (ancestor.declaredName) {
+    return ancestor.declaredName;
+  }
+  if (!ancestor.hoistedName) {
+    if (!ancestor.name) {
+      const chain = [...context.ancestors.slice(index).map(i => i.pointer), context.pointer];
+      throw new Error(`Unable to represent a circular schema without name: ${chain.join(" -> ")}`);
+    }
+    ancestor.hoistedName = getFreeObjectName(ancestor.name, context);
+    context.objects[ancestor.hoistedName] = { type: "" }; // reserve the name
+  }
+  return ancestor.hoistedName;
+};
 
-  return new Promise((resolve, reject) => {
-    if (!schema.openapi || !schema.openapi.startsWith("3.0")) {
+/**
+ * Resolve a schema while tracking it as an ancestor, a circular schema is hoisted into a named declaration.
+ *
+ * @param schema
+ * @param context
+ * @param declaredName name of the declaration of `schema`, if any
+ */
+const resolveTracked = (schema: SchemaObject, context: GeneratorContext, declaredName?: string) => {
+  const index = context.ancestors.findIndex(i => i.schema === schema);
+  if (index !== -1) {
+    return getCircularName(index, context);
+  }
+
+  const ancestor: GeneratorContext["ancestors"][number] = {
+    schema,
+    pointer: context.pointer,
+    name: context.name,
+    declaredName,
+  };
+  const ancestors = context.ancestors;
+  ancestors.push(ancestor);
+  let type: string;
+  try {
+    type = getScalar(schema, context);
+  } finally {
+    ancestors.pop();
+  }
+
+  if (ancestor.hoistedName) {
+    context.objects[ancestor.hoistedName] = { description: schema.description, type };
+    return ancestor.hoistedName;
+  }
+  return type;
+};
+
+/**
+ * Resolve the value of a schema object to a proper type definition.
+ * @param schema
+ */
+export const resolveValue = (schema: SchemaObject, context: GeneratorContext = createContext()): string =>
+  isReference(schema) ? getRef(schema.$ref, context) : resolveTracked(schema, context);
+
+/**
+ * Return the media type of a content type, without its parameters (`application/json;charset=utf-8` => `application/json`)
+ *
+ * @param contentType
+ */
+const getMediaType = (contentType: string) =>
+  contentType
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+
+/**
+ * Return if a content type is JSON (`application/json`, `application/problem+json`, `application/vnd.foo+json`…)
+ *
+ * @param contentType
+ */
+export const isJsonContentType = (contentType: string) =>
+  /^application\/([\w.-]+\+)?json$/.test(getMediaType(contentType));
+
+/**
+ * Return the preferred content type of a response or a request body (the first one if none is preferred)
+ *
+ * @example
+ * ```
+ * getContentType({ "text/plain": {}, "application/problem+json": {} });
+ * // => "application/problem+json"
+ * ```
+ * @param content
+ * @param preferences preferred content types, `application/json` matches every JSON type and `image/*` every image
+ */
+export const getContentType = (content: ContentObject = {}, preferences = DefaultContentTypes) => {
+  const contentTypes = Object.keys(content);
+  const matches = (contentType: string, preference: string) => {
+    if (getMediaType(preference) === "application/json") {
+      return isJsonContentType(contentType);
+    }
+    const [type, subtype] = getMediaType(contentType).split("/");
+    const [preferredType, preferredSubtype] = getMediaType(preference).split("/");
+    return [type, "*"].includes(preferredType) && [subtype, "*"].includes(preferredSubtype);
+  };
+
+  for (const preference of preferences) {
+    const contentType = contentTypes.find(i => matches(i, preference));
+    if (contentType) {
+      return contentType;
+    }
+  }
+  return contentTypes[0] as string | undefined;
+};
+
+/**
+ * Resolve the type of a content (`Blob` for the binary fields of a `multipart/form-data` content)
+ *
+ * Contents without schema are typed as `string` (`text/*`), `unknown` (JSON and forms) or `Blob`.
+ *
+ * @param media
+ * @param contentType
+ * @param context
+ */
+const getContentTypeType = (media: MediaTypeObject, contentType: string, context: GeneratorContext) => {
+  const mediaType = getMediaType(contentType);
+  const isForm = ["multipart/form-data", "application/x-www-form-urlencoded"].includes(mediaType);
+  if (!media.schema) {
+    return mediaType.startsWith("text/") ? "string" : isJsonContentType(mediaType) || isForm ? "unknown" : "Blob";
+  }
+  return resolveValue(
+    media.schema,
+    mediaType === "multipart/form-data"
+      ? { ...context, scalarMapping: { ...context.scalarMapping, "string:binary": "Blob" } }
+      : context,
+  );
+};
+
+/**
+ * Extract responses / request types from open-api specs
+ *
+ * @param responsesOrRequests reponses or requests object from open-api specs
+ * @param context
+ */
+export const getResReqTypes = (
+  responsesOrRequests: Array<[string, ResponseObject | ReferenceObject | RequestBodyObject]>,
+  context: GeneratorContext = createContext(),
+) =>
+  uniq(
+    responsesOrRequests.map(([key, res]) => {
+      if (!res) {
+        return "void";
+      }
+
+      if (isReference(res)) {
+        return getRef(res.$ref, context);
+      }
+
+      const contentType = getContentType(res.content, context.contentTypes);
+      if (res.content && contentType) {
+        return getContentTypeType(
+          res.content[contentType],
+          contentType,
+          withPointer(context, ...(key ? [key] : []), "content", contentType, "schema"),
+        );
+      }
+
+      return "void";
+    }),
+  ).join(" | ");
+
+/**
+ * Return every params in a path
+ *
+ * @example
+ * ```
+ * getParamsInPath("/pet/{category}/{name}/");
+ * // => ["category", "name"]
+ * ```
+ * @param path
+ */
+export const getParamsInPath = (path: string) => {
+  let n;
+  const output = [];
+  const templatePathRegex = /\{([^{}]+)}/g;
+  // tslint:disable-next-line:no-conditional-assignment
+  while ((n = templatePathRegex.exec(path)) !== null) {
+    output.push(n[1]);
+  }
+
+  return output;
+};
+
+/**
+ * Return a safe identifier for a path param name (e.g. `petId` for `{pet-id}`)
+ *
+ * @param name
+ */
+export const getParamIdentifier = (name: string) => {
+  const identifier = IdentifierRegexp.test(name) ? name : camel(name);
+  return IdentifierRegexp.test(identifier) && !ReservedWords.includes(identifier) ? identifier : `_${identifier}`;
+};
+
+/**
+ * Return the template of a path param, encoded according to its `style` and `explode`
+ *
+ * @example
+ * ```
+ * getPathParamTemplate({ name: "pet-id", in: "path", style: "matrix" }, "petId", false);
+ * // => ";pet-id=${encodeURIComponent(petId)}"
+ * ```
+ * @param param
+ * @param identifier identifier of the param in the generated code
+ * @param isArray
+ */
+export const getPathParamTemplate = (
+  { name, style = "simple", explode = false }: ParameterObject,
+  identifier: string,
+  isArray: boolean,
+) => {
+  const prefix = style === "label" ? "." : style === "matrix" ? `;${encodeURIComponent(name)}=` : "";
+  if (!isArray) {
+    return `${prefix}\${encodeURIComponent(${identifier})}`;
+  }
+  if (style === "matrix" && explode) {
+    return `\${${identifier}.map(i => \`${prefix}\${encodeURIComponent(i)}\`).join("")}`;
+  }
+  return `${prefix}\${${identifier}.map(encodeURIComponent).join("${style === "label" && explode ? "." : ","}")}`;
+};
+
+/**
+ * Lift every `$defs` of `#/components/schemas` (OpenAPI 3.1) into `#/components/schemas`.
+ *
+ * `#/components/schemas/Pet/$defs/Tag` becomes `#/components/schemas/PetTag`, and
+ * root level `#/$defs/Tag` becomes `#/components/schemas/Tag` (if not already taken).
+ *
+ * @param specs
+ */
+export const liftSchemaDefs = (specs: OpenAPIObject): OpenAPIObject => {
+  const output: OpenAPIObject = cloneDeep(specs);
+  const schemas: { [name: string]: SchemaObject | ReferenceObject } = get(output, "components.schemas", {});
+  const refs: { [from: string]: string } = {};
+
+  const getFreeName = (name: string) => {
+    let freeName = name;
+    for (let i = 2; schemas[freeName]; i++) {
+      freeName = `${name}${i}`;
+    }
+    return freeName;
+  };
+
+  const lift = (defs: { [name: string]: SchemaObject }, pointer: string, prefix: string) => {
+    Object.entries(defs).forEach(([name, schema]) => {
+      const { $defs, ...rest } = schema;
+      const liftedName = getFreeName(pascal(`${prefix} ${name}`));
+      schemas[liftedName] = rest;
+      refs[`${pointer}/$defs/${name}`] = `#/components/schemas/${liftedName}`;
+      if ($defs) {
+        lift($defs, `${pointer}/$defs/${name}`, liftedName);
+      }
+    });
+  };
+
+  if (output.$defs) {
+    lift(output.$defs, "#", "");
+    delete output.$defs;
+  }
+  Object.entries(schemas).forEach(([name, schema]) => {
+    if (!isReference(schema) && schema.$defs) {
+      const { $defs, ...rest } = schema;
+      schemas[name] = rest;
+      lift($defs, `#/components/schemas/${name}`, name);
+    }
+  });
+
+  if (isEmpty(refs)) {
+    return specs;
+  }
+  set(output, "components.schemas", schemas);
+
+  // Update every `$ref` to the lifted schemas
+  const updateRefs = (node: any) => {
+    if (Array.isArray(node)) {
+      node.forEach(updateRefs);
+    } else if (node && typeof node === "object") {
+      if (typeof node.$ref === "string" && refs[node.$ref]) {
+        node.$ref = refs[node.$ref];
+      }
+      Object.values(node).forEach(updateRefs);
+    }
+  };
+  updateRefs(output);
+
+  return output;
+};
+
+/**
+ * Import and parse the openapi spec from a yaml/json
+ *
+ * @param data raw data of the spec
+ * @param format format of the spec
+ */
+const importSpecs = (data: string, extension: "yaml" | "json"): Promise<OpenAPIObject> => {
+  const schema = extension === "yaml" ? YAML.parse(data) : JSON.parse(data);
+
+  return new Promise((resolve, reject) => {
+    if (schema.openapi && schema.openapi.startsWith("3.1")) {
+      resolve(liftSchemaDefs(schema));
+    } else if (!schema.openapi || !schema.openapi.startsWith("3.0")) {
       swagger2openapi.convertObj(schema, {}, (err, convertedObj) => {
         if (err) {
           reject(err);
@@ -277,6 +1095,7 @@ export const reactPropsValueToObjectValue = (value: string) => value.replace(/^{
  * @param route
  * @param baseUrl
  * @param operationIds - List of `operationId` to check duplication
+ * @param context
  */
 export const generateRestfulComponent = (
   operation: OperationObject,
@@ -286,6 +1105,7 @@ export const generateRestfulComponent = (
   parameters: Array<ReferenceObject | ParameterObject> = [],
   schemasComponents?: ComponentsObject,
   customOperationNameGenerator?: AdvancedOptions["customOperationNameGenerator"],
+  context: GeneratorContext = createContext(),
 ) => {
   if (!operation.operationId) {
     if (!customOperationNameGenerator) {
@@ -302,14 +1122,14 @@ export const generateRestfulComponent = (
   }
   operationIds.push(operation.operationId);
 
-  route = route.replace(/\{/g, "${"); // `/pet/{id}` => `/pet/${id}`
+  const pointer = `#/paths/${escapePointer(route)}`;
 
-  // Remove the last param of the route if we are in the DELETE case
+  // Remove the last param of the route if we are in the DELETE case (unless disabled by `stripDeleteParam`)
   let lastParamInTheRoute: string | null = null;
-  if (verb === "delete") {
-    const lastParamInTheRouteRegExp = /\/\$\{(\w+)\}\/?$/;
+  if (verb === "delete" && context.stripDeleteParam) {
+    const lastParamInTheRouteRegExp = /\/\{([^{}]+)\}\/?$/;
     lastParamInTheRoute = (route.match(lastParamInTheRouteRegExp) || [])[1];
-    route = route.replace(lastParamInTheRouteRegExp, ""); // `/pet/${id}` => `/pet`
+    route = route.replace(lastParamInTheRouteRegExp, ""); // `/pet/{id}` => `/pet`
   }
   const componentName = pascal(operation.operationId!);
 
@@ -317,13 +1137,74 @@ export const generateRestfulComponent = (
   const isError = ([statusCode]: [string, ResponseObject | ReferenceObject]) =>
     statusCode.toString().startsWith("4") || statusCode.toString().startsWith("5") || statusCode === "default";
 
-  const responseTypes = getResReqTypes(Object.entries(operation.responses).filter(isOk)) || "void";
-  const errorTypes = getResReqTypes(Object.entries(operation.responses).filter(isError)) || "unknown";
-  const requestBodyTypes = getResReqTypes([["body", operation.requestBody!]]);
-  const needARequestBodyComponent = requestBodyTypes.includes("{");
-  const needAResponseComponent = responseTypes.includes("{");
+  let responseTypes =
+    getResReqTypes(Object.entries(operation.responses).filter(isOk), {
+      ...withPointer({ ...context, pointer }, verb, "responses"),
+      name: `${componentName}Response`,
+      mode: "read",
+    }) || "void";
+  let errorTypes =
+    getResReqTypes(Object.entries(operation.responses).filter(isError), {
+      ...withPointer({ ...context, pointer }, verb, "responses"),
+      name: `${componentName}Error`,
+      mode: "read",
+    }) || "unknown";
+  let requestBodyTypes = getResReqTypes([["", operation.requestBody!]], {
+    ...withPointer({ ...context, pointer }, verb, "requestBody"),
+    name: `${componentName}RequestBody`,
+    mode: "write",
+  });
+  // Hoisted type of every response, named after its status code if there are several of its kind (`GetPetResponse202`)
+  const hoistedResponses: { [statusCode: string]: string } = {};
+  let isResponseUnionHoisted = false; // the union of the 2xx responses is made of hoisted objects
+  if (context.hoistObjects) {
+    const responses = Object.entries(operation.responses);
+    responses.forEach(([statusCode, res]: [string, ResponseObject | ReferenceObject]) => {
+      const name = `${componentName}${isError([statusCode, res]) ? "Error" : "Response"}`;
+      const type = getResReqTypes([[statusCode, res]], {
+        ...withPointer({ ...context, pointer }, verb, "responses"),
+        name,
+        mode: "read",
+      });
+      const isSeveral = responses.filter(i => isError(i) === isError([statusCode, res])).length > 1;
+      hoistedResponses[statusCode] = hoistObject(type, {
+        ...context,
+        name: isSeveral ? `${name}${pascal(statusCode)}` : name,
+      });
+    });
+    const okTypes = uniq(responses.filter(isOk).map(([statusCode]) => hoistedResponses[statusCode]));
+    isResponseUnionHoisted = okTypes.length > 1 && okTypes.some(type => context.objects[type.replace(/ \| null$/, "")]);
+    responseTypes = okTypes.join(" | ") || "void";
+    errorTypes =
+      uniq(responses.filter(isError).map(([statusCode]) => hoistedResponses[statusCode])).join(" | ") || "unknown";
+    requestBodyTypes = hoistObject(requestBodyTypes, { ...context, name: `${componentName}RequestBody` });
+  }
+  const getPreferredContentType = (item?: ResponseObject | RequestBodyObject | ReferenceObject) => {
+    const resolved: ResponseObject | RequestBodyObject | undefined =
+      item && isReference(item)
+        ? get(schemasComponents, item.$ref.replace("#/components/", "").replace("/", "."))
+        : item;
+    return resolved && getContentType(resolved.content, context.contentTypes);
+  };
+  const contentTypes = {
+    response: Object.entries(operation.responses)
+      .filter(isOk)
+      .map(([_, res]) => getPreferredContentType(res))
+      .find(Boolean),
+    body: getPreferredContentType(operation.requestBody),
+  };
 
-  const typeNames = {
+  const needARequestBodyComponent = requestBodyTypes.includes("{");
+  const needAResponseComponent = responseTypes.includes("{") || isResponseUnionHoisted;
+
+  const typeNames: {
+    response: string;
+    responses?: string;
+    query: string;
+    body: string;
+    headers?: string;
+    cookies?: string;
+  } = {
     response: responseTypes,
     query: "any",
     body: requestBodyTypes === "void" ? "any" : requestBodyTypes,
@@ -342,54 +1223,123 @@ export const generateRestfulComponent = (
    *    <DeleteResource>
    *      {(deleteThisThing) => <Button onClick={() => deleteThisThing("123")}>DELETE IT</Button>}
    *    </DeleteResource>
+   *
+   * Clients building the whole route (fetch based `customGenerator`…) can disable it with `stripDeleteParam: false`.
    */
 
-  const paramsInPath = getParamsInPath(route).filter(param => !(verb === "delete" && param === lastParamInTheRoute));
-  const { query: queryParams = [], path: pathParams = [], header: headerParams = [] } = groupBy(
-    [...parameters, ...(operation.parameters || [])].map<ParameterObject>(p => {
-      if (isReference(p)) {
-        return get(schemasComponents, p.$ref.replace("#/components/", "").replace("/", "."));
-      } else {
-        return p;
-      }
+  const pathParamNames = getParamsInPath(route).filter(param => !(verb === "delete" && param === lastParamInTheRoute));
+  const paramsInPath = pathParamNames.map(getParamIdentifier);
+  const parameterPointers = new Map<ParameterObject, string>();
+  const {
+    query: queryParams = [],
+    path: pathParams = [],
+    header: headerParams = [],
+    cookie: cookieParams = [],
+  } = groupBy(
+    [...parameters, ...(operation.parameters || [])].map<ParameterObject>((p, i) => {
+      const parameter: ParameterObject = isReference(p)
+        ? get(schemasComponents, p.$ref.replace("#/components/", "").replace("/", "."))
+        : p;
+      parameterPointers.set(
+        parameter,
+        isReference(p)
+          ? p.$ref
+          : i < parameters.length
+          ? `${pointer}/parameters/${i}`
+          : `${pointer}/${verb}/parameters/${i - parameters.length}`,
+      );
+      return parameter;
     }),
     "in",
   );
 
-  const paramsTypes = paramsInPath
-    .map(p => {
-      try {
-        const { name, required, schema } = pathParams.find(i => i.name === p)!;
-        return `${name}${required ? "" : "?"}: ${resolveValue(schema!)}`;
-      } catch (err) {
-        throw new Error(`The path params ${p} can't be found in parameters (${operation.operationId})`);
-      }
-    })
+  const resolvePathParam = (p: string) => {
+    try {
+      const param = pathParams.find(i => i.name === p)!;
+      const { name, required, schema } = param;
+      return {
+        name: getParamIdentifier(name),
+        required: Boolean(required),
+        type: resolveValue(schema!, {
+          ...context,
+          pointer: `${parameterPointers.get(param)}/schema`,
+          name: componentName + pascal(name),
+          mode: "write",
+        }),
+      };
+    } catch (err) {
+      throw new Error(`The path params ${p} can't be found in parameters (${operation.operationId})`);
+    }
+  };
+
+  const paramsTypes = pathParamNames
+    .map(resolvePathParam)
+    .map(({ name, required, type }) => `${name}${required ? "" : "?"}: ${type}`)
     .join(", ");
+  // The stripped param is not used by the route, it may be undeclared
+  const deleteParam =
+    lastParamInTheRoute && pathParams.some(i => i.name === lastParamInTheRoute)
+      ? resolvePathParam(lastParamInTheRoute)
+      : undefined;
+
+  // `/pet/{pet-id}` => `/pet/${encodeURIComponent(petId)}`
+  route = pathParamNames.reduce((output, name) => {
+    const param = pathParams.find(i => i.name === name)!;
+    const schema: SchemaObject | undefined =
+      param.schema && isReference(param.schema)
+        ? get(schemasComponents, param.schema.$ref.replace("#/components/", "").replace("/", "."))
+        : param.schema;
+    return output.replace(
+      `{${name}}`,
+      getPathParamTemplate(param, getParamIdentifier(name), Boolean(schema && schema.type === "array")),
+    );
+  }, route);
+
+  const getParamsType = (params: ParameterObject[]) =>
+    params
+      .map(p => {
+        const processedName = IdentifierRegexp.test(p.name) ? p.name : `"${p.name}"`;
+        return `${formatDescription(getDocumentation(p), 2)}${processedName}${p.required ? "" : "?"}: ${resolveValue(
+          p.schema!,
+          {
+            ...context,
+            pointer: `${parameterPointers.get(p)}/schema`,
+            name: componentName + pascal(p.name),
+            mode: "write",
+          },
+        )}`;
+      })
+      .join(";\n  ");
 
-  const queryParamsType = queryParams
-    .map(p => {
-      const processedName = IdentifierRegexp.test(p.name) ? p.name : `"${p.name}"`;
-      return `${formatDescription(p.description, 2)}${processedName}${p.required ? "" : "?"}: ${resolveValue(
-        p.schema!,
-      )}`;
-    })
-    .join(";\n  ");
+  const queryParamsType = getParamsType(queryParams);
+  const headerParamsType = getParamsType(
+    headerParams.filter(({ name }) => !IgnoredHeaderParams.includes(name.toLowerCase())),
+  );
+  const cookieParamsType = getParamsType(cookieParams);
 
   if (queryParamsType) {
-    typeNames.query = componentName + "QueryParams";
+    typeNames.query = registerName(`${pointer}/${verb}:QueryParams`, `${componentName}QueryParams`, context);
+  }
+  if (headerParamsType) {
+    typeNames.headers = registerName(`${pointer}/${verb}:HeaderParams`, `${componentName}HeaderParams`, context);
+  }
+  if (cookieParamsType) {
+    typeNames.cookies = registerName(`${pointer}/${verb}:CookieParams`, `${componentName}CookieParams`, context);
   }
 
   const description = formatDescription(
-    operation.summary && operation.description
-      ? `${operation.summary}\n\n${operation.description}`
-      : `${operation.summary || ""}${operation.description || ""}`,
+    getDocumentation(
+      operation,
+      operation.summary && operation.description
+        ? `${operation.summary}\n\n${operation.description}`
+        : `${operation.summary || ""}${operation.description || ""}`,
+    ),
   );
 
   let output = "";
 
   if (needAResponseComponent) {
-    const responseTypeName = `${componentName}Response`;
+    const responseTypeName = registerName(`${pointer}/${verb}:Response`, `${componentName}Response`, context);
     typeNames.response = responseTypeName;
     output += `
       export ${
@@ -400,9 +1350,34 @@ export const generateRestfulComponent = (
     `;
   }
 
+  // `{ 200: Pet; 404: Error; default: Error }`
+  const responsesType = Object.entries(operation.responses)
+    .map(([statusCode, res]: [string, ResponseObject | ReferenceObject]) => {
+      const type =
+        hoistedResponses[statusCode] ||
+        getResReqTypes([[statusCode, res]], {
+          ...withPointer({ ...context, pointer }, verb, "responses"),
+          name: `${componentName}${isError([statusCode, res]) ? "Error" : "Response"}`,
+          mode: "read",
+        });
+      const key = /^\d+$/.test(statusCode) || IdentifierRegexp.test(statusCode) ? statusCode : `"${statusCode}"`;
+      return `${formatDescription(isReference(res) ? undefined : res.description, 2)}${key}: ${
+        type === responseTypes ? typeNames.response : type
+      }`;
+    })
+    .join(";\n  ");
+
+  if (responsesType) {
+    typeNames.responses = registerName(`${pointer}/${verb}:Responses`, `${componentName}Responses`, context);
+    output += `
+      export interface ${typeNames.responses} {
+        ${responsesType};
+      }
+    `;
+  }
+
   if (queryParamsType) {
-    const queryParamsTypeName = `${componentName}QueryParams`;
-    typeNames.query = queryParamsTypeName;
+    const queryParamsTypeName = typeNames.query;
 
     output += `
       export interface ${queryParamsTypeName} {
@@ -411,8 +1386,34 @@ export const generateRestfulComponent = (
     `;
   }
 
+  if (headerParamsType) {
+    output += `
+      export interface ${typeNames.headers} {
+        ${headerParamsType};
+      }
+    `;
+  }
+
+  if (cookieParamsType) {
+    output += `
+      export interface ${typeNames.cookies} {
+        ${cookieParamsType};
+      }
+    `;
+  }
+
+  const querySerialization = getQuerySerialization(queryParams);
+  const querySerializationName = isEmpty(querySerialization)
+    ? undefined
+    : `${camel(componentName)}QueryParamsSerialization`;
+  if (querySerializationName) {
+    output += `
+      export const ${querySerializationName} = ${JSON.stringify(querySerialization)} as const;
+    `;
+  }
+
   if (needARequestBodyComponent) {
-    const requestBodyTypeName = `${componentName}RequestBody`;
+    const requestBodyTypeName = registerName(`${pointer}/${verb}:RequestBody`, `${componentName}RequestBody`, context);
     typeNames.body = requestBodyTypeName;
     output += `
       export interface ${requestBodyTypeName} ${requestBodyTypes}
@@ -431,137 +1432,895 @@ export const generateRestfulComponent = (
       headerParams,
       paramsInPath,
       paramsTypes,
+      deleteParam,
+      // An operation `security` (even empty) overrides the one of the spec
+      security: operation.security || context.security,
+      // Servers overriding the ones of the spec (`servers` constant), if any
+      servers: operation.servers || context.servers,
+      querySerialization: querySerializationName,
+      contentTypes,
       operation,
     },
   };
 };
 
 /**
- * Generate the interface string
+ * Return the serialization (`style`, `explode`, `allowReserved`) of the query params
+ *
+ * Only the params that are not serialized by default (`form` + `explode`) are returned.
+ *
+ * @param queryParams
+ */
+export const getQuerySerialization = (queryParams: ParameterObject[]) =>
+  queryParams.reduce<{ [name: string]: { style: string; explode: boolean; allowReserved?: boolean } }>(
+    (output, { name, style = "form", explode = style === "form" || style === "deepObject", allowReserved }) =>
+      style === "form" && explode && !allowReserved
+        ? output
+        : { ...output, [name]: { style, explode, ...(allowReserved ? { allowReserved } : {}) } },
+    {},
+  );
+
+/**
+ * Generate the types of the webhooks (OpenAPI 3.1) and of the callbacks of the operations
+ *
+ * Every webhook gets a payload (`<Webhook>Payload`) and a response (`<Webhook>Response`) type if they are inline,
+ * and a handler in the `WebhookHandlers` map, to implement the receiving side.
+ *
+ * @param specs
+ * @param context
+ */
+export const generateWebhooks = (specs: OpenAPIObject, context: GeneratorContext = createContext()) => {
+  const resolve = <T>(item: T | ReferenceObject): T =>
+    isReference(item) ? get(specs.components, item.$ref.replace("#/components/", "").replace("/", ".")) : item;
+
+  const pathItems: Array<{
+    name: string;
+    route: string;
+    pathItem: PathItemObject;
+    pointer: string;
+    callback?: { name: string; operationId?: string };
+  }> = [];
+  Object.entries<PathItemObject | ReferenceObject>(specs.webhooks || {}).forEach(([name, pathItem]) =>
+    pathItems.push({ name, route: name, pathItem: resolve(pathItem), pointer: `#/webhooks/${escapePointer(name)}` }),
+  );
+  Object.entries(specs.paths || {}).forEach(([route, pathItem]: [string, PathItemObject]) =>
+    Object.entries(pathItem)
+      .filter(([verb]) => Verbs.includes(verb))
+      .forEach(([verb, operation]: [string, OperationObject]) =>
+        Object.entries(operation.callbacks || {}).forEach(([name, callback]) =>
+          Object.entries<PathItemObject>(resolve(callback)).forEach(([expression, callbackPathItem]) =>
+            pathItems.push({
+              name: `${operation.operationId || ""} ${name}`,
+              route: expression,
+              pathItem: callbackPathItem,
+              pointer: `#/paths/${escapePointer(route)}/${verb}/callbacks/${escapePointer(name)}/${escapePointer(
+                expression,
+              )}`,
+              callback: { name, operationId: operation.operationId },
+            }),
+          ),
+        ),
+      ),
+  );
+
+  const declarations: string[] = [];
+  const declare = (name: string, type: string) =>
+    declarations.push(
+      type.includes("|") || type.includes("&") ? `export type ${name} = ${type};` : `export interface ${name} ${type}`,
+    );
+
+  const webhooks = pathItems.reduce<
+    Array<{
+      name: string;
+      componentName: string;
+      verb: string;
+      route: string;
+      description: string;
+      typeNames: { body: string; response: string };
+      operation: OperationObject;
+      callback?: { name: string; operationId?: string };
+    }>
+  >((acc, { name, route, pathItem, pointer, callback }) => {
+    const operations = Object.entries(pathItem).filter(([verb]) => Verbs.includes(verb));
+    return [
+      ...acc,
+      ...operations.map(([verb, operation]: [string, OperationObject]) => {
+        // The verb is only needed to tell apart the operations of a same webhook
+        const componentName = pascal(operation.operationId || (operations.length > 1 ? `${name} ${verb}` : name));
+
+        // The payload is sent by the api (`read` mode), the response is sent back to it (`write` mode)
+        let body = getResReqTypes([["", operation.requestBody!]], {
+          ...withPointer({ ...context, pointer }, verb, "requestBody"),
+          name: `${componentName}Payload`,
+          mode: "read",
+        });
+        let response =
+          getResReqTypes(
+            Object.entries(operation.responses || {}).filter(([statusCode]) => statusCode.startsWith("2")),
+            {
+              ...withPointer({ ...context, pointer }, verb, "responses"),
+              name: `${componentName}Response`,
+              mode: "write",
+            },
+          ) || "void";
+        if (context.hoistObjects) {
+          body = hoistObject(body, { ...context, name: `${componentName}Payload` });
+          response = hoistObject(response, { ...context, name: `${componentName}Response` });
+        }
+
+        if (body.includes("{")) {
+          const bodyTypeName = registerName(`${pointer}/${verb}:Payload`, `${componentName}Payload`, context);
+          declare(bodyTypeName, body);
+          body = bodyTypeName;
+        }
+        if (response.includes("{")) {
+          const responseTypeName = registerName(`${pointer}/${verb}:Response`, `${componentName}Response`, context);
+          declare(responseTypeName, response);
+          response = responseTypeName;
+        }
+
+        return {
+          name: camel(componentName),
+          componentName,
+          verb,
+          route,
+          description: formatDescription(
+            getDocumentation(
+              operation,
+              [operation.summary, operation.description].filter(Boolean).join("\n\n") || undefined,
+            ),
+          ),
+          typeNames: { body, response },
+          operation,
+          callback,
+        };
+      }),
+    ];
+  }, []);
+
+  if (!webhooks.length) {
+    return { output: "", webhooks };
+  }
+
+  declare(
+    registerName("#/webhooks:Handlers", "WebhookHandlers", context),
+    `{
+  ${webhooks
+    .map(
+      ({ name, operation, typeNames }) =>
+        `${formatDescription(getDocumentation(operation, operation.summary), 2)}${name}: (${
+          typeNames.body === "void" ? "" : `body: ${typeNames.body}`
+        }) => Promise<${typeNames.response}>;`,
+    )
+    .join("\n  ")}
+}`,
+  );
+
+  return { output: "\n" + declarations.join("\n\n") + "\n", webhooks };
+};
+
+/**
+ * Generate the interface string
+ *
+ * @param name interface name
+ * @param schema
+ * @param context
+ */
+export const generateInterface = (name: string, schema: SchemaObject, context: GeneratorContext = createContext()) => {
+  const scalar = getScalar(schema, { ...context, name: pascal(name) });
+  return `${formatDescription(getDocumentation(schema))}export interface ${pascal(name)} ${scalar}`;
+};
+
+/**
+ * Return every `[value, $ref]` of a discriminator
+ *
+ * The members of `oneOf` / `anyOf` without explicit `mapping` are identified by their schema name.
+ *
+ * @param schema schema with a `discriminator`
+ */
+export const getDiscriminatorMapping = (schema: SchemaObject) => {
+  const mapping = Object.entries((schema.discriminator && schema.discriminator.mapping) || {}).map(([value, ref]): [
+    string,
+    string,
+  ] => [value, ref.startsWith("#") ? ref : `#/components/schemas/${ref}`]);
+
+  (schema.oneOf || schema.anyOf || []).forEach(member => {
+    if (isReference(member) && !mapping.some(([_, ref]) => ref === member.$ref)) {
+      mapping.push([member.$ref.split("/").pop()!, member.$ref]);
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Propagate every `discriminator.propertyName` mapping to the original ref
+ *
+ * Note: this method returns a new spec, `specs` is not mutated.
+ *
+ * @param specs
+ */
+export const resolveDiscriminator = (specs: OpenAPIObject): OpenAPIObject => {
+  const output = cloneDeep(specs);
+  if (!output.components || !output.components.schemas) {
+    return output;
+  }
+  const schemas = output.components.schemas;
+
+  Object.values(schemas).forEach(schema => {
+    if (isReference(schema) || !schema.discriminator) {
+      return;
+    }
+    const { propertyName } = schema.discriminator;
+    const values = groupBy(getDiscriminatorMapping(schema), ([_, ref]) => ref);
+
+    Object.entries(values).forEach(([ref, entries]) => {
+      if (!ref.startsWith("#/components/schemas/")) {
+        throw new Error("Discriminator mapping outside of `#/components/schemas` is not supported");
+      }
+      const target = schemas[ref.slice("#/components/schemas/".length)];
+      if (!target || isReference(target)) {
+        return;
+      }
+      const property = target.properties && target.properties[propertyName];
+      target.properties = {
+        ...target.properties,
+        [propertyName]: {
+          ...(property && !isReference(property) ? property : { type: "string" }),
+          enum: entries.map(([value]) => value),
+        },
+      };
+    });
+  });
+
+  return output;
+};
+
+/**
+ * Generate a type guard for every member of a discriminated union (`isCat(pet): pet is Cat`)
+ * and an exhaustive matcher (`matchPet(pet, { Cat: cat => …, Dog: dog => … })`).
+ *
+ * @param schemas
+ * @param context
+ */
+export const generateDiscriminatorHelpers = (
+  schemas: ComponentsObject["schemas"] = {},
+  context: GeneratorContext = createContext(),
+) => {
+  const guardNames: string[] = [];
+
+  const helpers = Object.entries(schemas).map(([name, schema]) => {
+    if (isReference(schema) || !schema.discriminator) {
+      return "";
+    }
+    const members = schema.oneOf || schema.anyOf || [];
+    if (!members.length || !members.every(isReference)) {
+      return "";
+    }
+
+    const typeName = getRef(`#/components/schemas/${name}`, context);
+    const paramName = camel(name);
+    const { propertyName } = schema.discriminator;
+    const property = IdentifierRegexp.test(propertyName) ? `.${propertyName}` : `["${propertyName}"]`;
+    const mapping = getDiscriminatorMapping(schema);
+
+    const guards = (members as ReferenceObject[]).map(({ $ref }) => {
+      const memberName = getRef($ref, context);
+      const values = mapping.filter(([_, ref]) => ref === $ref).map(([value]) => value);
+      const guardName = guardNames.includes(`is${memberName}`) ? `is${typeName}${memberName}` : `is${memberName}`;
+      guardNames.push(guardName);
+      return { memberName, guardName, values };
+    });
+
+    return [
+      ...guards.map(
+        ({ memberName, guardName, values }) =>
+          `export const ${guardName} = (${paramName}: ${typeName}): ${paramName} is ${memberName} => ${values
+            .map(value => `${paramName}${property} === ${JSON.stringify(value)}`)
+            .join(" || ")};`,
+      ),
+      `export const match${typeName} = <T>(${paramName}: ${typeName}, matchers: { ${guards
+        .map(({ memberName }) => `${memberName}: (${paramName}: ${memberName}) => T`)
+        .join("; ")} }): T => {
+${guards
+  .map(
+    ({ memberName, guardName }) => `  if (${guardName}(${paramName})) { return matchers.${memberName}(${paramName}); }`,
+  )
+  .join("\n")}
+  throw new Error(\`Unknown ${typeName}: \${JSON.stringify(${paramName})}\`);
+};`,
+    ].join("\n\n");
+  });
+
+  return helpers.some(Boolean) ? "\n" + helpers.filter(Boolean).join("\n\n") + "\n" : "";
+};
+
+/**
+ * Return the `$ref` of every schema that contains `readOnly` / `writeOnly` properties,
+ * directly or through another schema.
+ *
+ * @param schemas
+ */
+export const getReadWriteRefs = (schemas: ComponentsObject["schemas"] = {}) => {
+  const refs: string[] = [];
+  const ancestors: SchemaObject[] = [];
+
+  const hasReadWriteProperties = (schema?: SchemaObject | ReferenceObject | boolean): boolean => {
+    if (!schema || typeof schema === "boolean" || ancestors.includes(schema)) {
+      return false;
+    }
+    if (isReference(schema)) {
+      return refs.includes(schema.$ref);
+    }
+
+    const properties = Object.values(schema.properties || {});
+    ancestors.push(schema);
+    const output =
+      properties.some(property => (property as SchemaObject).readOnly || (property as SchemaObject).writeOnly) ||
+      [
+        ...properties,
+        schema.items,
+        schema.additionalProperties,
+        ...(schema.allOf || []),
+        ...(schema.oneOf || []),
+        ...(schema.anyOf || []),
+        ...(schema.prefixItems || []),
+      ].some(hasReadWriteProperties);
+    ancestors.pop();
+    return output;
+  };
+
+  // Repeat until every schema referencing a read/write schema is found
+  let newRefs: string[];
+  do {
+    newRefs = Object.entries(schemas)
+      .filter(([name, schema]) => !refs.includes(`#/components/schemas/${name}`) && hasReadWriteProperties(schema))
+      .map(([name]) => `#/components/schemas/${name}`);
+    refs.push(...newRefs);
+  } while (newRefs.length);
+
+  return refs;
+};
+
+/**
+ * Extract all types from #/components/schemas
+ *
+ * Enums hoisted as declarations are collected into the context (see `generateEnumsDefinition`).
+ *
+ * @param schemas
+ * @param context
+ */
+export const generateSchemasDefinition = (
+  schemas: ComponentsObject["schemas"] = {},
+  context: GeneratorContext = createContext(),
+) => {
+  if (isEmpty(schemas)) {
+    return "";
+  }
+
+  context.schemaNames.push(...Object.keys(schemas).map(name => getRef(`#/components/schemas/${name}`, context)));
+  context.readWriteRefs.push(...getReadWriteRefs(schemas));
+
+  return (
+    Object.entries(schemas)
+      .map(([name, schema]) => {
+        if (
+          context.enumStyle !== "union" &&
+          !isReference(schema) &&
+          schema.enum &&
+          schema.type !== "boolean" &&
+          !isNullable(schema)
+        ) {
+          context.enums[getRef(`#/components/schemas/${name}`, context)] = {
+            description: schema.description,
+            members: getEnumMembers(schema),
+          };
+          return "";
+        }
+
+        const doc = formatDescription(isReference(schema) ? undefined : getDocumentation(schema));
+        const isInterface =
+          !isReference(schema) &&
+          (!schema.type || schema.type === "object") &&
+          !schema.allOf &&
+          !schema.oneOf &&
+          !schema.anyOf &&
+          !schema.not &&
+          !isNullable(schema);
+
+        // Schemas with `readOnly` / `writeOnly` properties are declared twice: `Pet` (response) and `PetInput` (request)
+        const pointer = `#/components/schemas/${escapePointer(name)}`;
+        const ref = `#/components/schemas/${name}`;
+        const typeName = getRef(ref, context);
+        // A nullable enum can't be declared as an `enum`, it is kept as the union of its values
+        const schemaContext: GeneratorContext =
+          !isReference(schema) && schema.enum && isNullable(schema) ? { ...context, enumStyle: "union" } : context;
+        const writeTypeName = getRef(ref, { ...context, mode: "write" });
+        const variants: Array<[string, GeneratorContext]> = context.readWriteRefs.includes(ref)
+          ? [
+              [typeName, { ...schemaContext, name: typeName, pointer, mode: "read" }],
+              [writeTypeName, { ...schemaContext, name: writeTypeName, pointer, mode: "write" }],
+            ]
+          : [[typeName, { ...schemaContext, name: typeName, pointer }]];
+
+        return variants
+          .map(([typeName, variantContext]) => {
+            const type = isReference(schema)
+              ? getRef(schema.$ref, variantContext)
+              : resolveTracked(schema, variantContext, typeName);
+            return isInterface
+              ? `${doc}export interface ${typeName} ${type}`
+              : `${doc}export type ${typeName} = ${type};`;
+          })
+          .join("\n\n");
+      })
+      .filter(Boolean)
+      .join("\n\n") + "\n"
+  );
+};
+
+/**
+ * Generate every enum declaration hoisted in the context
+ *
+ * @param context
+ */
+export const generateEnumsDefinition = (context: GeneratorContext) => {
+  if (isEmpty(context.enums)) {
+    return "";
+  }
+
+  return (
+    Object.entries(context.enums)
+      .map(([name, { description, members }]) => {
+        const doc = formatDescription(description);
+        if (context.enumStyle === "const") {
+          return `${doc}export const ${name} = {
+${members.map(([key, value]) => `  ${key}: ${value},`).join("\n")}
+} as const;
+
+export type ${name} = typeof ${name}[keyof typeof ${name}];`;
+        }
+
+        return `${doc}export enum ${name} {
+${members.map(([key, value]) => `  ${key} = ${value},`).join("\n")}
+}`;
+      })
+      .join("\n\n") + "\n"
+  );
+};
+
+/**
+ * Generate every object declaration hoisted in the context
+ *
+ * @param context
+ */
+export const generateObjectsDefinition = (context: GeneratorContext) => {
+  if (isEmpty(context.objects)) {
+    return "";
+  }
+
+  return (
+    Object.entries(context.objects)
+      .map(([name, { description, type }]) =>
+        type.startsWith("{") && !hasTopLevelOperator(type, "|") && !hasTopLevelOperator(type, "&")
+          ? `${formatDescription(description)}export interface ${name} ${type}`
+          : `${formatDescription(description)}export type ${name} = ${type};`,
+      )
+      .join("\n\n") + "\n"
+  );
+};
+
+/**
+ * Extract all types from #/components/requestBodies
+ *
+ * @param requestBodies
+ * @param context
+ */
+export const generateRequestBodiesDefinition = (
+  requestBodies: ComponentsObject["requestBodies"] = {},
+  context: GeneratorContext = createContext(),
+) => {
+  if (isEmpty(requestBodies)) {
+    return "";
+  }
+
+  return (
+    "\n" +
+    Object.entries(requestBodies)
+      .map(([name, requestBody]) => {
+        const doc = isReference(requestBody) ? "" : formatDescription(requestBody.description);
+        const typeName = getRef(`#/components/requestBodies/${name}`, context);
+        const type = getResReqTypes([["", requestBody]], {
+          ...context,
+          pointer: `#/components/requestBodies/${escapePointer(name)}`,
+          name: typeName,
+          mode: "write",
+        });
+        const isEmptyInterface = type === "{}";
+        if (type === typeName) {
+          return ""; // circular schema, already hoisted
+        } else if (isEmptyInterface) {
+          return `// tslint:disable-next-line:no-empty-interface
+export interface ${typeName} ${type}`;
+        } else if (type.includes("{") && !type.includes("|") && !type.includes("&")) {
+          return `${doc}export interface ${typeName} ${type}`;
+        } else {
+          return `${doc}export type ${typeName} = ${type};`;
+        }
+      })
+      .join("\n\n") +
+    "\n"
+  );
+};
+
+/**
+ * Extract all types from #/components/responses
+ *
+ * @param responses
+ * @param context
+ */
+export const generateResponsesDefinition = (
+  responses: ComponentsObject["responses"] = {},
+  context: GeneratorContext = createContext(),
+) => {
+  if (isEmpty(responses)) {
+    return "";
+  }
+
+  return (
+    "\n" +
+    Object.entries(responses)
+      .map(([name, response]) => {
+        const doc = isReference(response) ? "" : formatDescription(response.description);
+        const typeName = getRef(`#/components/responses/${name}`, context);
+        const type = getResReqTypes([["", response]], {
+          ...context,
+          pointer: `#/components/responses/${escapePointer(name)}`,
+          name: typeName,
+          mode: "read",
+        });
+        const isEmptyInterface = type === "{}";
+        if (type === typeName) {
+          return ""; // circular schema, already hoisted
+        } else if (isEmptyInterface) {
+          return `// tslint:disable-next-line:no-empty-interface
+export interface ${typeName} ${type}`;
+        } else if (type.includes("{") && !type.includes("|") && !type.includes("&")) {
+          return `${doc}export interface ${typeName} ${type}`;
+        } else {
+          return `${doc}export type ${typeName} = ${type};`;
+        }
+      })
+      .join("\n\n") +
+    "\n"
+  );
+};
+
+/**
+ * Return the type of a parameter or a header (from its `schema` or its `content`)
+ *
+ * @param item parameter or header object
+ * @param context
+ */
+const getParameterType = (item: ParameterObject | HeaderObject | ReferenceObject, context: GeneratorContext) => {
+  if (isReference(item)) {
+    return getRef(item.$ref, context);
+  }
+  if (item.schema) {
+    return resolveValue(item.schema, withPointer(context, "schema"));
+  }
+  const [contentType, mediaType] = Object.entries(item.content || {})[0] || [];
+  return mediaType && mediaType.schema
+    ? resolveValue(mediaType.schema, withPointer(context, "content", contentType, "schema"))
+    : "any";
+};
+
+/**
+ * Declare a type for every parameter or header of #/components
+ *
+ * @param items parameters or headers
+ * @param pointer JSON pointer of `items`
+ * @param context
+ */
+const generateParameterLikesDefinition = (
+  items: { [name: string]: ParameterObject | HeaderObject | ReferenceObject },
+  pointer: string,
+  context: GeneratorContext,
+) => {
+  if (isEmpty(items)) {
+    return "";
+  }
+
+  return (
+    "\n" +
+    Object.entries(items)
+      .map(([name, item]) => {
+        const typeName = getRef(`${pointer}/${name}`, context);
+        const doc = isReference(item) ? "" : formatDescription(getDocumentation(item));
+        const type = getParameterType(item, {
+          ...context,
+          name: typeName,
+          pointer: `${pointer}/${escapePointer(name)}`,
+        });
+        const isEmptyInterface = type === "{}";
+        if (type === typeName) {
+          return ""; // circular schema, already hoisted
+        } else if (isEmptyInterface) {
+          return `// tslint:disable-next-line:no-empty-interface
+export interface ${typeName} ${type}`;
+        } else if (type.startsWith("{") && !type.includes("|") && !type.includes("&")) {
+          return `${doc}export interface ${typeName} ${type}`;
+        } else {
+          return `${doc}export type ${typeName} = ${type};`;
+        }
+      })
+      .join("\n\n") +
+    "\n"
+  );
+};
+
+/**
+ * Extract all types from #/components/parameters
+ *
+ * @param parameters
+ * @param context
+ */
+export const generateParametersDefinition = (
+  parameters: ComponentsObject["parameters"] = {},
+  context: GeneratorContext = createContext(),
+) => generateParameterLikesDefinition(parameters, "#/components/parameters", { ...context, mode: "write" });
+
+/**
+ * Extract all types from #/components/headers
+ *
+ * @param headers
+ * @param context
+ */
+export const generateHeadersDefinition = (
+  headers: ComponentsObject["headers"] = {},
+  context: GeneratorContext = createContext(),
+) => generateParameterLikesDefinition(headers, "#/components/headers", { ...context, mode: "read" });
+
+/**
+ * Extract the security schemes from #/components/securitySchemes
+ *
+ * They are declared as a `securitySchemes` constant (to give to the http client) and its `SecuritySchemes` type.
+ *
+ * @param securitySchemes
+ * @param context
+ */
+export const generateSecuritySchemesDefinition = (
+  securitySchemes: ComponentsObject["securitySchemes"] = {},
+  context: GeneratorContext = createContext(),
+) => {
+  if (isEmpty(securitySchemes)) {
+    return "";
+  }
+
+  const typeName = registerName("#/components/securitySchemes", "SecuritySchemes", context);
+  return `
+export const ${camel(typeName)} = ${JSON.stringify(securitySchemes)} as const;
+
+export type ${typeName} = typeof ${camel(typeName)};
+`;
+};
+
+/**
+ * Return the key of a server in the `servers` constant, from its `x-name` or its description
  *
- * @param name interface name
- * @param schema
+ * Example:
+ *  getServerName({ url: "https://api.pets.com", description: "Production server" }) // `production`
+ *
+ * @param server
  */
-export const generateInterface = (name: string, schema: SchemaObject) => {
-  const scalar = getScalar(schema);
-  return `${formatDescription(schema.description)}export interface ${pascal(name)} ${scalar}`;
+export const getServerName = (server: ServerObject) => {
+  const name = server["x-name"] || (server.description || "").replace(/\s+(server|environment)$/i, "");
+  return name ? getParamIdentifier(camel(name)) : undefined;
 };
 
 /**
- * Propagate every `discriminator.propertyName` mapping to the original ref
+ * Extract the servers of the spec
  *
- * Note: This method directly mutate the `specs` object.
+ * They are declared as a `servers` constant (with the default value of their variables), and
+ * a `buildServerUrl` function (with the `ServerVariables` interface) when they have variables.
+ * The default server url is declared as `defaultServerUrl` (`base` if given).
  *
- * @param specs
+ * @param servers
+ * @param base default server url (typescript expression, e.g. `"http://my-pet-store.com"` or `{ getConfig("base") }`)
+ * @param context
  */
-export const resolveDiscriminator = (specs: OpenAPIObject) => {
-  if (specs.components && specs.components.schemas) {
-    Object.values(specs.components.schemas).forEach(schema => {
-      if (isReference(schema) || !schema.discriminator || !schema.discriminator.mapping) {
-        return;
-      }
-      const { mapping, propertyName } = schema.discriminator;
+export const generateServersDefinition = (
+  servers: ServerObject[] = [],
+  base?: string,
+  context: GeneratorContext = createContext(),
+) => {
+  const defaultServerUrl = base ? reactPropsValueToObjectValue(base).trim() : undefined;
+  if (servers.length === 0) {
+    return defaultServerUrl ? `\nexport const defaultServerUrl = ${defaultServerUrl};\n` : "";
+  }
 
-      Object.entries(mapping).forEach(([name, ref]) => {
-        if (!ref.startsWith("#/components/schemas/")) {
-          throw new Error("Discriminator mapping outside of `#/components/schemas` is not supported");
-        }
-        set(specs, `components.schemas.${ref.slice("#/components/schemas/".length)}.properties.${propertyName}.enum`, [
-          name,
-        ]);
-      });
-    });
+  const names: string[] = [];
+  const templates = servers.map((server, index) => {
+    const baseName = getServerName(server) || `server${index + 1}`;
+    let name = baseName;
+    for (let i = 2; names.includes(name); i++) {
+      name = `${baseName}${i}`;
+    }
+    names.push(name);
+
+    const defaults = Object.entries(server.variables || {}).reduce<{ [name: string]: string }>(
+      (output, [variable, { default: value }]) => ({ ...output, [variable]: String(value) }),
+      {},
+    );
+    return { name, server, defaults };
+  });
+
+  // Variables of every server (the enums of a variable shared by several servers are merged)
+  const variables: { [name: string]: { description?: string; default: string; enum?: string[] } } = {};
+  servers.forEach(server =>
+    Object.entries(server.variables || {}).forEach(([name, variable]) => {
+      const values = variable.enum && (variable.enum as any[]).map(String);
+      variables[name] = variables[name]
+        ? { ...variables[name], enum: variables[name].enum && values && uniq([...variables[name].enum!, ...values]) }
+        : { description: variable.description, default: String(variable.default), enum: values };
+    }),
+  );
+
+  let output = `
+/**
+ * Servers of the api (with the default value of their variables)
+ */
+export const servers = {
+  ${templates
+    .map(({ name, server, defaults }) => {
+      const url = server.url.replace(/\{([^{}]+)}/g, (match, variable) =>
+        variable in defaults ? defaults[variable] : match,
+      );
+      return `${formatDescription(server.description, 2)}${name}: ${JSON.stringify(url)}`;
+    })
+    .join(",\n  ")},
+} as const;
+
+export const defaultServerUrl = ${defaultServerUrl || `servers.${templates[0].name}`};
+`;
+
+  if (isEmpty(variables)) {
+    return output;
   }
+
+  const typeName = registerName("#/servers:Variables", "ServerVariables", context);
+  output += `
+export interface ${typeName} {
+  ${Object.entries(variables)
+    .map(
+      ([name, variable]) =>
+        `${formatDescription(
+          [variable.description, `@default ${JSON.stringify(variable.default)}`].filter(Boolean).join("\n\n"),
+          2,
+        )}${IdentifierRegexp.test(name) ? name : `"${name}"`}?: ${
+          variable.enum ? variable.enum.map(i => JSON.stringify(i)).join(" | ") : "string"
+        }`,
+    )
+    .join(";\n  ")};
+}
+
+const serverTemplates: { [server in keyof typeof servers]: { url: string; defaults: ${typeName} } } = {
+  ${templates
+    .map(
+      ({ name, server, defaults }) =>
+        `${name}: { url: ${JSON.stringify(server.url)}, defaults: ${JSON.stringify(defaults)} }`,
+    )
+    .join(",\n  ")},
 };
 
 /**
- * Extract all types from #/components/schemas
+ * Build the url of a server (\`${templates[0].name}\` by default) with the given variables
  *
- * @param schemas
+ * @param variables value of the variables, their default value is used if missing
+ * @param server
  */
-export const generateSchemasDefinition = (schemas: ComponentsObject["schemas"] = {}) => {
-  if (isEmpty(schemas)) {
-    return "";
-  }
-
-  return (
-    Object.entries(schemas)
-      .map(([name, schema]) =>
-        !isReference(schema) &&
-        (!schema.type || schema.type === "object") &&
-        !schema.allOf &&
-        !schema.oneOf &&
-        !isReference(schema) &&
-        !schema.nullable
-          ? generateInterface(name, schema)
-          : `${formatDescription(isReference(schema) ? undefined : schema.description)}export type ${pascal(
-              name,
-            )} = ${resolveValue(schema)};`,
-      )
-      .join("\n\n") + "\n"
+export const buildServerUrl = (variables: ${typeName} = {}, server: keyof typeof servers = "${templates[0].name}") =>
+  serverTemplates[server].url.replace(
+    /{([^{}]+)}/g,
+    (_, name: keyof ${typeName}) => variables[name] || serverTemplates[server].defaults[name] || "",
   );
+`;
+
+  return output;
 };
 
 /**
- * Extract all types from #/components/requestBodies
+ * Return the JSDoc tags of the metadata of a schema (`@format`, `@default`, constraints…)
  *
- * @param requestBodies
+ * @param schema
  */
-export const generateRequestBodiesDefinition = (requestBodies: ComponentsObject["requestBodies"] = {}) => {
-  if (isEmpty(requestBodies)) {
-    return "";
+const getSchemaTags = (schema: SchemaObject) => {
+  const tags: string[] = [];
+  if (schema.format) {
+    tags.push(`@format ${schema.format}`);
   }
-
-  return (
-    "\n" +
-    Object.entries(requestBodies)
-      .map(([name, requestBody]) => {
-        const doc = isReference(requestBody) ? "" : formatDescription(requestBody.description);
-        const type = getResReqTypes([["", requestBody]]);
-        const isEmptyInterface = type === "{}";
-        if (isEmptyInterface) {
-          return `// tslint:disable-next-line:no-empty-interface
-export interface ${pascal(name)}RequestBody ${type}`;
-        } else if (type.includes("{") && !type.includes("|") && !type.includes("&")) {
-          return `${doc}export interface ${pascal(name)}RequestBody ${type}`;
-        } else {
-          return `${doc}export type ${pascal(name)}RequestBody = ${type};`;
-        }
-      })
-      .join("\n\n") +
-    "\n"
-  );
+  if (schema.default !== undefined) {
+    tags.push(`@default ${JSON.stringify(schema.default)}`);
+  }
+  // `exclusiveMinimum` / `exclusiveMaximum` are booleans in OpenAPI 3.0 and numbers in OpenAPI 3.1
+  (["minimum", "maximum"] as const).forEach(key => {
+    const exclusiveKey = key === "minimum" ? "exclusiveMinimum" : "exclusiveMaximum";
+    const exclusive: boolean | number | undefined = schema[exclusiveKey];
+    if (typeof exclusive === "number") {
+      tags.push(`@${exclusiveKey} ${exclusive}`);
+    } else if (schema[key] !== undefined) {
+      tags.push(`@${exclusive ? exclusiveKey : key} ${schema[key]}`);
+    }
+  });
+  ([
+    "multipleOf",
+    "minLength",
+    "maxLength",
+    "pattern",
+    "minItems",
+    "maxItems",
+    "uniqueItems",
+    "minProperties",
+    "maxProperties",
+  ] as const).forEach(key => {
+    if (schema[key] !== undefined && schema[key] !== false) {
+      tags.push(schema[key] === true ? `@${key}` : `@${key} ${schema[key]}`);
+    }
+  });
+  if (schema.not) {
+    tags.push(`@not ${JSON.stringify(schema.not)} (not checked: \`not\` can't be expressed in typescript)`);
+  }
+  return tags;
 };
 
 /**
- * Extract all types from #/components/responses
+ * Return the documentation of a schema, a parameter or an operation: the description
+ * followed by the JSDoc tags of its metadata (`@deprecated`, `@example`, constraints, `@see`…)
  *
- * @param responses
+ * @param item
+ * @param description description to use instead of `item.description`
  */
-export const generateResponsesDefinition = (responses: ComponentsObject["responses"] = {}) => {
-  if (isEmpty(responses)) {
-    return "";
+export const getDocumentation = (
+  item: SchemaObject | ParameterObject | HeaderObject | OperationObject,
+  description: string | undefined = item.description,
+) => {
+  const tags: string[] = [];
+  if (item.deprecated) {
+    tags.push("@deprecated");
   }
 
-  return (
-    "\n" +
-    Object.entries(responses)
-      .map(([name, response]) => {
-        const doc = isReference(response) ? "" : formatDescription(response.description);
-        const type = getResReqTypes([["", response]]);
-        const isEmptyInterface = type === "{}";
-        if (isEmptyInterface) {
-          return `// tslint:disable-next-line:no-empty-interface
-export interface ${pascal(name)}Response ${type}`;
-        } else if (type.includes("{") && !type.includes("|") && !type.includes("&")) {
-          return `${doc}export interface ${pascal(name)}Response ${type}`;
-        } else {
-          return `${doc}export type ${pascal(name)}Response = ${type};`;
-        }
-      })
-      .join("\n\n") +
-    "\n"
+  // Schema metadata, parameters and headers are documented by their schema
+  const schema: SchemaObject | ReferenceObject | undefined = "responses" in item ? undefined : item.schema || item;
+  if (schema && !isReference(schema)) {
+    tags.push(...getSchemaTags(schema));
+  }
+
+  // Examples of a parameter are taken from its schema if not defined
+  const examples: SchemaObject | HeaderObject | undefined = [item, schema].find(
+    (i: any) => i && !isReference(i) && (i.example !== undefined || i.examples),
   );
+  if (examples && examples.example !== undefined) {
+    tags.push(`@example ${JSON.stringify(examples.example)}`);
+  } else if (examples && Array.isArray(examples.examples)) {
+    // OpenAPI 3.1 schema examples
+    tags.push(...examples.examples.map((example: any) => `@example ${JSON.stringify(example)}`));
+  } else if (examples) {
+    // Parameter examples (`{ [name]: ExampleObject }`)
+    Object.values(examples.examples || {}).forEach((example: any) => {
+      if (example && example.value !== undefined) {
+        tags.push(`@example ${JSON.stringify(example.value)}`);
+      }
+    });
+  }
+
+  if (item.externalDocs) {
+    tags.push(`@see ${[item.externalDocs.url, item.externalDocs.description].filter(Boolean).join(" ")}`);
+  }
+
+  const documentation = [description, tags.map(tag => tag.replace(/\*\//g, "*\\/")).join("\n")]
+    .filter(Boolean)
+    .join("\n\n");
+  return documentation || undefined;
 };
 
 /**
@@ -624,35 +2383,79 @@ Path    : ${i.path}`),
 };
 
 /**
- * Main entry of the generator. Generate typescript types from openAPI.
- *
- * @param options.data raw data of the spec
- * @param options.format format of the spec
- * @param options.transformer custom function to transform your spec
- * @param options.validation validate the spec with ibm-openapi-validator tool
+ * Options of `importOpenApi` and `importOpenApiFiles`
  */
-const importOpenApi = async ({
-  data,
-  format,
-  transformer,
-  validation,
-  customImport,
-  customGenerator,
-  customGeneratorWrap = (children: string) => children,
-  customOperationNameGenerator,
-}: {
+export interface ImportOpenApiOptions {
   data: string;
   format: "yaml" | "json";
   transformer?: (specs: OpenAPIObject) => OpenAPIObject;
   validation?: boolean;
   customImport?: AdvancedOptions["customImport"];
+  scalarMapping?: AdvancedOptions["scalarMapping"];
   customProps?: AdvancedOptions["customProps"];
   customGenerator?: AdvancedOptions["customGenerator"];
   customGeneratorWrap?: AdvancedOptions["customGeneratorWrap"];
   customOperationNameGenerator?: AdvancedOptions["customOperationNameGenerator"];
-}) => {
+  customWebhookGenerator?: AdvancedOptions["customWebhookGenerator"];
+  enumStyle?: AdvancedOptions["enumStyle"];
+  hoistObjects?: AdvancedOptions["hoistObjects"];
+  namingStrategy?: AdvancedOptions["namingStrategy"];
+  contentTypes?: AdvancedOptions["contentTypes"];
+  stripDeleteParam?: AdvancedOptions["stripDeleteParam"];
+  verbs?: AdvancedOptions["verbs"];
+  source?: string;
+}
+
+/**
+ * Return the module of an operation in the `--output-dir` mode, named after its first tag
+ *
+ * @param operation
+ */
+const getOperationModule = (operation: OperationObject) => {
+  const name = camel((operation.tags && operation.tags[0]) || "default");
+  return name === "index" ? "indexOperations" : name; // `index.ts` is the barrel
+};
+
+/**
+ * Generate the declarations of the spec and the output of the custom generators
+ *
+ * Every chunk of code comes with its module in the `--output-dir` mode (the declarations of the
+ * components have no module, they are split by name in `models/`).
+ *
+ * @param options see `importOpenApi`
+ */
+const generateDeclarations = async ({
+  data,
+  format,
+  transformer,
+  validation,
+  customImport,
+  scalarMapping = {},
+  customProps = {},
+  customGenerator,
+  customOperationNameGenerator,
+  customWebhookGenerator,
+  enumStyle = "union",
+  hoistObjects = false,
+  namingStrategy = "suffix",
+  contentTypes = DefaultContentTypes,
+  stripDeleteParam = true,
+  verbs = Verbs,
+  source,
+}: ImportOpenApiOptions) => {
   const operationIds: string[] = [];
+  const context = createContext({
+    enumStyle,
+    scalarMapping,
+    hoistObjects,
+    namingStrategy,
+    contentTypes,
+    stripDeleteParam,
+  });
   let specs = await importSpecs(data, format);
+  if (source) {
+    specs = await bundleSpecs(specs, source);
+  }
   if (transformer) {
     specs = transformer(specs);
   }
@@ -661,59 +2464,462 @@ const importOpenApi = async ({
     await validate(specs);
   }
 
-  resolveDiscriminator(specs);
+  specs = resolveDiscriminator(specs);
 
-  let output = "";
-  const components: ReturnType<typeof generateRestfulComponent>["component"][] = [];
+  registerComponentNames(specs.components, context);
+  context.security = specs.security;
 
-  output += generateSchemasDefinition(specs.components && specs.components.schemas);
-  output += generateRequestBodiesDefinition(specs.components && specs.components.requestBodies);
-  output += generateResponsesDefinition(specs.components && specs.components.responses);
-  Object.entries(specs.paths).forEach(([route, verbs]: [string, PathItemObject]) => {
-    Object.entries(verbs).forEach(([verb, operation]: [string, OperationObject]) => {
-      if (["get", "post", "patch", "put", "delete"].includes(verb)) {
-        const { output: componentOutput, component } = generateRestfulComponent(
-          operation,
-          verb,
-          route,
-          operationIds,
-          verbs.parameters,
-          specs.components,
-          customOperationNameGenerator,
-        );
+  const declarations: Array<{ module?: string; code: string }> = [];
+  const components: ReturnType<typeof generateRestfulComponent>["component"][] = [];
 
-        components.push(component);
-        output += componentOutput;
+  declarations.push(
+    ...[
+      generateSchemasDefinition(specs.components && specs.components.schemas, context),
+      generateDiscriminatorHelpers(specs.components && specs.components.schemas, context),
+      generateRequestBodiesDefinition(specs.components && specs.components.requestBodies, context),
+      generateResponsesDefinition(specs.components && specs.components.responses, context),
+      generateParametersDefinition(specs.components && specs.components.parameters, context),
+      generateHeadersDefinition(specs.components && specs.components.headers, context),
+    ].map(code => ({ code })),
+  );
+  declarations.push({
+    module: "security",
+    code: generateSecuritySchemesDefinition(specs.components && specs.components.securitySchemes, context),
+  });
+  declarations.push({ module: "servers", code: generateServersDefinition(specs.servers, customProps.base, context) });
+  const skippedOperations: string[] = [];
+  Object.entries(specs.paths || {}).forEach(([route, pathItem]: [string, PathItemObject]) => {
+    Object.entries(pathItem).forEach(([verb, operation]: [string, OperationObject]) => {
+      if (!Verbs.includes(verb)) {
+        return;
+      }
+      if (!verbs.map(i => i.toLowerCase()).includes(verb)) {
+        skippedOperations.push(`${verb.toUpperCase()} ${route}`);
+        return;
       }
+      const { output: componentOutput, component } = generateRestfulComponent(
+        operation,
+        verb,
+        route,
+        operationIds,
+        pathItem.parameters,
+        specs.components,
+        customOperationNameGenerator,
+        pathItem.servers ? { ...context, servers: pathItem.servers } : context,
+      );
+
+      components.push(component);
+      declarations.push({ module: getOperationModule(operation), code: componentOutput });
     });
   });
+  if (skippedOperations.length) {
+    context.warnings.push(
+      `The operations ${skippedOperations.join(", ")} are skipped (only ${verbs.join(", ")} are generated)`,
+    );
+  }
 
-  let generatorOutput = "";
+  const { output: webhooksOutput, webhooks } = generateWebhooks(specs, context);
+  declarations.push({ module: "webhooks", code: webhooksOutput });
 
-  if (customGenerator) {
-    components.forEach(component => {
-      generatorOutput += customGenerator(component);
-    });
+  declarations.unshift({
+    code: generateEnumsDefinition(context) + "\n" + generateObjectsDefinition(context) + "\n",
+  });
+
+  const generated = customGenerator
+    ? components.map(component => ({
+        module: getOperationModule(component.operation),
+        code: customGenerator(component),
+      }))
+    : [];
+
+  const webhooksGenerated = customWebhookGenerator ? webhooks.map(customWebhookGenerator).join("") : "";
+
+  if (context.warnings.length) {
+    // tslint:disable:no-console
+    console.log(chalk.yellow("(!) Warnings"));
+    uniq(context.warnings).forEach(warning => console.log(chalk.yellow(`- ${warning}`)));
+    // tslint:enable:no-console
   }
 
-  output += customGeneratorWrap(generatorOutput);
+  const imports = context.imports.filter(i => !customImport || !customImport.includes(i));
+
+  return { declarations, generated, webhooksGenerated, imports };
+};
 
-  output = output =
-    `/* Generated by oats-generator */
+/**
+ * Return the header of a generated file
+ *
+ * @param customImport
+ * @param imports
+ */
+const getHeader = (customImport: string | undefined, imports: string[]) =>
+  `/* Generated by oats-generator */
   
     ${customImport ? `\n${customImport}\n` : ""}
+    ${imports.length ? `\n${imports.join("\n")}\n` : ""}
 
-` + output;
+`;
 
+/**
+ * Return the prettier options of the generated code (from the prettier config of the project)
+ */
+const getPrettierOptions = async (): Promise<prettier.Options> => {
   const prettierConfFilePath = await prettier.resolveConfigFile();
   const prettierConf = await prettier.resolveConfig(prettierConfFilePath || "");
 
-  const formatted = prettier.format(output, {
+  return {
     ...prettierConf,
     parser: "typescript",
+  };
+};
+
+/**
+ * Main entry of the generator. Generate typescript types from openAPI.
+ *
+ * @param options.data raw data of the spec
+ * @param options.format format of the spec
+ * @param options.transformer custom function to transform your spec
+ * @param options.validation validate the spec with ibm-openapi-validator tool
+ * @param options.scalarMapping custom types of formats (`date-time` => `Date`…)
+ * @param options.customProps.base default server url (typescript expression), declared as `defaultServerUrl`
+ * @param options.enumStyle how enums are rendered (`union`, `enum` or `const`)
+ * @param options.hoistObjects declare inline objects as named interfaces
+ * @param options.namingStrategy how type name collisions are resolved (`suffix`, `prefix` or `error`)
+ * @param options.contentTypes preferred content types of the responses and request bodies
+ * @param options.stripDeleteParam strip the last path param of the `delete` operations from the route
+ * @param options.verbs http methods of the generated operations (every method by default)
+ * @param options.source path or url of the spec, used to bundle external `$ref`
+ */
+const importOpenApi = async (options: ImportOpenApiOptions) => {
+  const { customImport, customGeneratorWrap = (children: string) => children } = options;
+  const { declarations, generated, webhooksGenerated, imports } = await generateDeclarations(options);
+
+  const output =
+    declarations.map(({ code }) => code).join("") +
+    customGeneratorWrap(generated.map(({ code }) => code).join("")) +
+    webhooksGenerated;
+
+  return prettier.format(getHeader(customImport, imports) + output, await getPrettierOptions());
+};
+
+/**
+ * Split a formatted code into its top-level statements (with their documentation)
+ *
+ * @param code
+ */
+const splitStatements = (code: string) => {
+  const statements: string[] = [];
+  let lines: string[] = [];
+  let isComment = false; // the current statement is only a comment so far (documentation of the next one)
+
+  code.split("\n").forEach(line => {
+    const isStart = /^(export |declare |const |let |var |function |class |interface |type |enum |\/\*|\/\/)/.test(line);
+    if (isStart && !isComment && lines.some(i => i.trim())) {
+      statements.push(lines.join("\n").trim());
+      lines = [];
+    }
+    if (isStart) {
+      isComment = /^\/[*/]/.test(line);
+    }
+    lines.push(line);
+  });
+  if (lines.some(i => i.trim())) {
+    statements.push(lines.join("\n").trim());
+  }
+
+  return statements;
+};
+
+/**
+ * Return the names exported by a formatted code
+ *
+ * @param code
+ * @param valuesOnly only return the values (not the `interface` and `type` declarations)
+ */
+const getExportedNames = (code: string, valuesOnly = false) =>
+  uniq(
+    (
+      code.match(
+        valuesOnly
+          ? /^export (declare )?(const|let|var|function|class|enum) [\w$]+/gm
+          : /^export (declare )?(const|let|var|function|class|interface|type|enum) [\w$]+/gm,
+      ) || []
+    ).map(i => i.split(" ").pop()!),
+  );
+
+/**
+ * Replace the comments, the strings and the template literals of a code by spaces
+ *
+ * The expressions of the template literals (`${…}`) are returned apart, with their own literals replaced.
+ *
+ * Example:
+ *  stripLiterals("fetch(`${baseUrl}/pets`) // list") // `{ code: "fetch( )  ", expressions: ["baseUrl"] }`
+ *
+ * @param code
+ */
+const stripLiterals = (code: string) => {
+  const expressions: string[] = [];
+
+  // Read the code from `start`, until the end of the code or of the template expression
+  const read = (start: number, isExpression: boolean) => {
+    let output = "";
+    let depth = 0; // braces opened in the template expression
+    let i = start;
+    while (i < code.length) {
+      const char = code[i];
+      if (code.startsWith("/*", i) || code.startsWith("//", i)) {
+        const isBlock = code.startsWith("/*", i);
+        const end = code.indexOf(isBlock ? "*/" : "\n", i + 2);
+        i = end < 0 ? code.length : end + (isBlock ? 2 : 0);
+        output += " ";
+      } else if (char === '"' || char === "'") {
+        i++;
+        while (i < code.length && code[i] !== char && code[i] !== "\n") {
+          i += code[i] === "\\" ? 2 : 1;
+        }
+        i++;
+        output += " ";
+      } else if (char === "`") {
+        i++;
+        while (i < code.length && code[i] !== "`") {
+          if (code.startsWith("${", i)) {
+            const expression = read(i + 2, true);
+            expressions.push(expression.output);
+            i = expression.end + 1;
+          } else {
+            i += code[i] === "\\" ? 2 : 1;
+          }
+        }
+        i++;
+        output += " ";
+      } else if (isExpression && char === "}" && !depth) {
+        break;
+      } else {
+        depth += char === "{" ? 1 : char === "}" ? -1 : 0;
+        output += char;
+        i++;
+      }
+    }
+
+    return { output, end: i };
+  };
+
+  return { code: read(0, false).output, expressions };
+};
+
+/**
+ * Return the identifiers referenced by a formatted code, used as a type or as a value
+ * (comments, strings, properties and keys excluded)
+ *
+ * Every identifier of an `interface` or a `type` declaration is a type. Elsewhere, an identifier is a value
+ * when it is called, or after `new`, `instanceof`, `typeof`, `return`, `throw` or `=`, and a type otherwise
+ * (annotations, generics, `as`…). The identifiers of the template literal expressions are values.
+ *
+ * @param code
+ */
+const getReferencedIdentifiers = (code: string) => {
+  const types = new Set<string>();
+  const values = new Set<string>();
+
+  const addIdentifiers = (stripped: string, isExpression: boolean) => {
+    const isTypeDeclaration = /^(export\s+)?(declare\s+)?(interface|type)\s/.test(stripped.trim());
+    const identifierRegexp = /[A-Za-z_$][\w$]*/g;
+
+    for (let match = identifierRegexp.exec(stripped); match; match = identifierRegexp.exec(stripped)) {
+      const [name] = match;
+      const before = stripped.slice(Math.max(0, match.index - 12), match.index);
+      const after = stripped.slice(match.index + name.length, match.index + name.length + 3);
+      const isProperty = /[\w$]$|(^|[^.])\.\s*$/.test(before);
+      const isKey = /^\s*\??:/.test(after) && !/\?\s*$/.test(before);
+      if (isProperty || isKey) {
+        continue;
+      }
+
+      const isValue =
+        isExpression ||
+        (!isTypeDeclaration &&
+          (/^\s*\(/.test(after) || /(\bnew|\binstanceof|\btypeof|\breturn|\bthrow|[^=!<>]=)\s*$/.test(before)));
+      (isValue ? values : types).add(name);
+    }
+  };
+
+  splitStatements(code).forEach(statement => {
+    const { code: stripped, expressions } = stripLiterals(statement);
+    addIdentifiers(stripped, false);
+    expressions.forEach(expression => addIdentifiers(expression, true));
+  });
+
+  return { types, values };
+};
+
+/**
+ * Return the local names of an import statement
+ *
+ * Example:
+ *  getImportedNames(`import Decimal, { Big as B } from "decimal.js";`) // `["Decimal", "B"]`
+ *
+ * @param statement
+ */
+const getImportedNames = (statement: string) =>
+  ((statement.match(/^import\s+([\s\S]+?)\s+from\s/) || [])[1] || "")
+    .replace(/[{}]/g, ",")
+    .split(",")
+    .map(
+      i =>
+        i
+          .trim()
+          .split(/\s+as\s+/)
+          .pop()!,
+    )
+    .filter(Boolean);
+
+/**
+ * Keep the used names of an import statement (`undefined` if none of them is used)
+ *
+ * Example:
+ *  pickImportedNames(`import { A, B as C } from "a";`, name => name === "C") // `import { B as C } from "a";`
+ *
+ * @param statement
+ * @param isUsed
+ */
+const pickImportedNames = (statement: string, isUsed: (name: string) => boolean) => {
+  if (!getImportedNames(statement).some(isUsed)) {
+    return;
+  }
+  return statement.replace(/\{([^}]*)\}/, (_, specifiers: string) => {
+    const usedSpecifiers = specifiers
+      .split(",")
+      .map(i => i.trim())
+      .filter(i => i && isUsed(i.split(/\s+as\s+/).pop()!));
+    return `{ ${usedSpecifiers.join(", ")} }`;
+  });
+};
+
+/**
+ * Return the path of a module, relative to the module importing it
+ *
+ * @param from path of the importing module
+ * @param to path of the imported module
+ */
+const getImportPath = (from: string, to: string) => {
+  const importPath = posix.relative(posix.dirname(from), to).replace(/\.ts$/, "");
+  return importPath.startsWith(".") ? importPath : `./${importPath}`;
+};
+
+/**
+ * Generate typescript modules from openAPI (`--output-dir` mode)
+ *
+ * - `models/<Name>.ts`: a module per declaration of the components (schemas, hoisted enums…)
+ * - `<tag>.ts`: a module per tag of the operations (`default.ts` for the untagged ones), with the output of the `customGenerator`
+ * - `client.ts`: the exported declarations of the `customImport` (e.g. a client instance), shared by the other modules
+ * - `security.ts`, `servers.ts` and `webhooks.ts`
+ * - `index.ts`: a barrel exporting every module
+ *
+ * The imports between the modules are computed from the identifiers they reference.
+ *
+ * @param options see `importOpenApi`
+ * @returns the code of the modules, indexed by path (relative to the output directory)
+ */
+export const importOpenApiFiles = async (options: ImportOpenApiOptions) => {
+  const { customImport, customGeneratorWrap = (children: string) => children } = options;
+  const { declarations, generated, webhooksGenerated, imports } = await generateDeclarations(options);
+  const prettierOptions = await getPrettierOptions();
+
+  const modules: { [path: string]: string } = {};
+  const append = (path: string, code: string) => (modules[path] = (modules[path] || "") + code);
+
+  // One module per declared name (an enum `const` and its type are declared together)
+  let modelPath = "models/common.ts";
+  const models = declarations.filter(({ module }) => !module).map(({ code }) => code);
+  splitStatements(prettier.format(models.join(""), prettierOptions)).forEach(statement => {
+    const [name] = getExportedNames(statement);
+    modelPath = name ? `models/${name}.ts` : modelPath;
+    append(modelPath, `${statement}\n\n`);
+  });
+
+  declarations.filter(({ module }) => module).forEach(({ module, code }) => append(`${module}.ts`, code));
+
+  // The imports of the `customImport` are added to the modules using them, and its declarations are declared
+  // once in `client.ts` if they are exported (a client instance must be shared by every module)
+  const importRegexp = /^import\s[\s\S]*?["'][^"'\n]*["'];?[ \t]*$/gm;
+  const formattedCustomImport = customImport ? prettier.format(customImport, prettierOptions) : "";
+  const customImports = formattedCustomImport.match(importRegexp) || [];
+  const customDeclarations = formattedCustomImport.replace(importRegexp, "").trim();
+  const isClientShared = getExportedNames(customDeclarations).length > 0;
+  if (isClientShared) {
+    append("client.ts", `${customDeclarations}\n`);
+  }
+
+  // The rest of the `customImport` is only needed by the output of the custom generators
+  const generatedCustomImport = [
+    ...customImports.filter(i => !getImportedNames(i).length),
+    ...(isClientShared ? [] : [customDeclarations]),
+  ]
+    .filter(Boolean)
+    .join("\n");
+  const generatedModules = groupBy(generated, "module");
+  Object.entries(generatedModules).forEach(([module, items]) =>
+    append(`${module}.ts`, customGeneratorWrap(items.map(({ code }) => code).join(""))),
+  );
+  if (webhooksGenerated) {
+    append("webhooks.ts", webhooksGenerated);
+  }
+  const customImportPaths = [
+    ...Object.keys(generatedModules).map(module => `${module}.ts`),
+    ...(webhooksGenerated ? ["webhooks.ts"] : []),
+  ];
+
+  const bodies: { [path: string]: string } = {};
+  Object.entries(modules).forEach(([path, code]) => {
+    const body = prettier.format(code, prettierOptions);
+    if (body.trim()) {
+      bodies[path] = body;
+    }
   });
+  const exportedNames = Object.entries(bodies).map(([path, body]) => ({
+    path,
+    names: getExportedNames(body),
+    values: getExportedNames(body, true),
+  }));
+
+  const files: { [path: string]: string } = {};
+  exportedNames.forEach(({ path, names: ownNames }) => {
+    const { types, values } = getReferencedIdentifiers(bodies[path]);
+
+    // A type is only imported if it is not used as a value (that would be a global, like `new Error()`)
+    const isImported = (name: string, isValue: boolean) =>
+      !ownNames.includes(name) &&
+      !(values.has(name) && GlobalValues.includes(name)) &&
+      (isValue ? types.has(name) || values.has(name) : types.has(name) && !values.has(name));
+
+    const moduleImports = exportedNames
+      .filter(i => i.path !== path)
+      .map(i => ({ path: i.path, names: i.names.filter(name => isImported(name, i.values.includes(name))) }))
+      .filter(({ names }) => names.length)
+      .map(i => `import { ${i.names.join(", ")} } from "${getImportPath(path, i.path)}";`);
+    const isUsed = (name: string) => types.has(name) || values.has(name);
+    const pickUsedImports = (statements: string[]) =>
+      statements.map(i => pickImportedNames(i, isUsed)).filter(Boolean) as string[];
+    const header = [
+      ...pickUsedImports(customImports),
+      ...(customImportPaths.includes(path) && generatedCustomImport ? [generatedCustomImport] : []),
+    ].join("\n");
+
+    files[path] = prettier.format(
+      getHeader(header || undefined, [...pickUsedImports(imports), ...moduleImports]) + bodies[path],
+      prettierOptions,
+    );
+  });
+
+  files["index.ts"] = prettier.format(
+    getHeader(undefined, []) +
+      Object.keys(bodies)
+        .map(path => `export * from "${getImportPath("index.ts", path)}";`)
+        .join("\n"),
+    prettierOptions,
+  );
 
-  return formatted;
+  return files;
 };
 
 export default importOpenApi;
@@ -0,0 +1,160 @@
+import { readFileSync } from "fs";
+import nock from "nock";
+import { join } from "path";
+import YAML from "yamljs";
+
+import { OpenAPIObject } from "openapi3-ts";
+
+import { bundleSpecs } from "../bundle-specs";
+import importOpenApi from "../import-open-api";
+
+const source = join(__dirname, "./bundle/openapi.yaml");
+
+const createSpecs = (components: OpenAPIObject["components"]): OpenAPIObject => ({
+  openapi: "3.0.0",
+  info: { title: "Test", version: "0.0.1" },
+  paths: {},
+  components,
+});
+
+describe("scripts/bundle-specs", () => {
+  it("should bundle a spec split into multiple files", async () => {
+    const data = await importOpenApi({ data: readFileSync(source, "utf-8"), format: "yaml", source });
+    expect(data).toMatchInlineSnapshot(`
+      "/* Generated by oats-generator */
+
+      export interface Pet {
+        name: string;
+        tag?: Tag;
+        owner?: Owner;
+      }
+
+      export interface Error {
+        message: string;
+      }
+
+      export interface Tag {
+        label?: string;
+      }
+
+      export interface Owner {
+        name?: string;
+        pets?: Pet[];
+      }
+
+      export interface ListPetsResponses {
+        /**
+         * A list of pets
+         */
+        200: Pet[];
+        /**
+         * Unexpected error
+         */
+        default: Error;
+      }
+
+      export interface ListPetsQueryParams {
+        /**
+         * maximum number of results to return
+         */
+        limit?: number;
+      }
+      "
+    `);
+  });
+
+  it("should lift external schemas into components", async () => {
+    const specs = YAML.parse(readFileSync(source, "utf-8"));
+    const bundled = await bundleSpecs(specs, source);
+
+    expect(Object.keys(bundled.components!.schemas!)).toEqual(["Pet", "Error", "Tag", "Owner"]);
+    expect(bundled.paths["/pets"].get.parameters).toEqual([
+      {
+        name: "limit",
+        in: "query",
+        description: "maximum number of results to return",
+        schema: { type: "integer" },
+      },
+    ]);
+    expect(specs.paths["/pets"]).toEqual({ $ref: "./paths/pets.yaml" });
+  });
+
+  it("should give a collision-free name to lifted schemas", async () => {
+    const specs = createSpecs({
+      schemas: {
+        Tag: { type: "string" },
+        Other: { type: "object", properties: { tag: { $ref: "./schemas/pet.yaml#/Tag" } } },
+      },
+    });
+    const bundled = await bundleSpecs(specs, source);
+
+    expect(bundled.components!.schemas!.Other).toEqual({
+      type: "object",
+      properties: { tag: { $ref: "#/components/schemas/Tag2" } },
+    });
+    expect(bundled.components!.schemas!.Tag2).toEqual({ type: "object", properties: { label: { type: "string" } } });
+  });
+
+  it("should reuse the name of an external schema declared in components", async () => {
+    const specs = createSpecs({
+      schemas: {
+        Label: { $ref: "./schemas/pet.yaml#/Tag" },
+        Other: { type: "object", properties: { tag: { $ref: "./schemas/pet.yaml#/Tag" } } },
+      },
+    });
+    const bundled = await bundleSpecs(specs, source);
+
+    expect(bundled.components!.schemas).toEqual({
+      Label: { type: "object", properties: { label: { type: "string" } } },
+      Other: { type: "object", properties: { tag: { $ref: "#/components/schemas/Label" } } },
+    });
+  });
+
+  it("should throw if a file doesn't exist", async () => {
+    const specs = createSpecs({ schemas: { Foo: { type: "array", items: { $ref: "./schemas/nope.yaml#/Foo" } } } });
+
+    await expect(bundleSpecs(specs, source)).rejects.toThrow(
+      `Unable to load "${join(
+        __dirname,
+        "bundle/schemas/nope.yaml",
+      )}" (referenced from ${source}#/components/schemas/Foo/items)`,
+    );
+  });
+
+  it("should throw if a pointer doesn't exist", async () => {
+    const specs = createSpecs({ schemas: { Foo: { type: "array", items: { $ref: "./schemas/pet.yaml#/Nope" } } } });
+
+    await expect(bundleSpecs(specs, source)).rejects.toThrow(
+      `Unable to resolve $ref "./schemas/pet.yaml#/Nope": "/Nope" not found in ${join(
+        __dirname,
+        "bundle/schemas/pet.yaml",
+      )}`,
+    );
+  });
+
+  it("should throw on circular aliases", async () => {
+    const files: { [location: string]: string } = {
+      "/specs/a.json": JSON.stringify({ $ref: "./b.json" }),
+      "/specs/b.json": JSON.stringify({ $ref: "./a.json" }),
+    };
+    const specs = createSpecs({ schemas: { Foo: { type: "array", items: { $ref: "./a.json" } } } });
+
+    await expect(bundleSpecs(specs, "/specs/openapi.json", async location => files[location])).rejects.toThrow(
+      "Circular $ref: /specs/a.json# -> /specs/b.json# -> /specs/a.json#",
+    );
+  });
+
+  it("should resolve $ref relative to an url", async () => {
+    nock("https://my-api.com")
+      .get("/specs/schemas/pet.json")
+      .reply(200, { type: "object", properties: { name: { type: "string" } } });
+
+    const specs = createSpecs({ schemas: { Foo: { type: "array", items: { $ref: "./schemas/pet.json" } } } });
+    const bundled = await bundleSpecs(specs, "https://my-api.com/specs/openapi.json");
+
+    expect(bundled.components!.schemas).toEqual({
+      Foo: { type: "array", items: { $ref: "#/components/schemas/Pet" } },
+      Pet: { type: "object", properties: { name: { type: "string" } } },
+    });
+  });
+});
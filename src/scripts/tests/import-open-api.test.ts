@@ -1,22 +1,52 @@
 import { readFileSync } from "fs";
 import { join } from "path";
 
-import { ComponentsObject, OpenAPIObject, OperationObject, ResponseObject } from "openapi3-ts";
+import {
+  ComponentsObject,
+  ContentObject,
+  OpenAPIObject,
+  OperationObject,
+  ParameterObject,
+  RequestBodyObject,
+  ResponseObject,
+  SchemaObject,
+} from "openapi3-ts";
 
 import importOpenApi, {
+  createContext,
+  importOpenApiFiles,
+  generateEnumsDefinition,
   generateResponsesDefinition,
   generateRestfulComponent,
   generateSchemasDefinition,
   getArray,
+  getEnumMembers,
   getObject,
   getParamsInPath,
+  getParamIdentifier,
+  getPathParamTemplate,
+  getReadWriteRefs,
   getRef,
   getResReqTypes,
   getScalar,
   isReference,
+  liftSchemaDefs,
   reactPropsValueToObjectValue,
   resolveDiscriminator,
+  generateDiscriminatorHelpers,
+  generateParametersDefinition,
+  generateHeadersDefinition,
+  generateObjectsDefinition,
+  getDocumentation,
+  registerName,
+  getQuerySerialization,
+  getContentType,
+  generateWebhooks,
+  generateSecuritySchemesDefinition,
+  generateServersDefinition,
+  getServerName,
 } from "../import-open-api";
+import { AdvancedOptions } from "../../bin/oats-generator-import";
 
 describe("scripts/import-open-api", () => {
   it("should parse correctly petstore-expanded.yaml", async () => {
@@ -25,6 +55,54 @@ describe("scripts/import-open-api", () => {
     expect(data).toMatchSnapshot();
   });
 
+  it("should parse an OpenAPI 3.1 spec without conversion", async () => {
+    const input = JSON.stringify({
+      openapi: "3.1.0",
+      info: { title: "Test", version: "0.0.1" },
+      webhooks: {
+        newPet: {
+          post: {
+            requestBody: { content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } } },
+            responses: { "200": { description: "ok" } },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Pet: {
+            type: "object",
+            required: ["name", "kind"],
+            properties: {
+              name: { type: "string" },
+              tag: { type: ["string", "null"], examples: ["cute"] },
+              kind: { const: "pet" },
+              position: { type: "array", prefixItems: [{ type: "number" }, { type: "number" }] },
+            },
+          },
+        },
+      },
+    });
+    const data = await importOpenApi({ data: input, format: "json" });
+    expect(data).toMatchInlineSnapshot(`
+      "/* Generated by oats-generator */
+
+      export interface Pet {
+        name: string;
+        /**
+         * @example \\"cute\\"
+         */
+        tag?: string | null;
+        kind: \\"pet\\";
+        position?: [number, number];
+      }
+
+      export interface WebhookHandlers {
+        newPet: (body: Pet) => Promise<void>;
+      }
+      "
+    `);
+  });
+
   describe("isReference", () => {
     it("should return true if the property is a ref", () => {
       const property = {
@@ -44,6 +122,87 @@ describe("scripts/import-open-api", () => {
     it("should return all params in the path", () => {
       expect(getParamsInPath("/pet/{category}/{name}/")).toEqual(["category", "name"]);
     });
+
+    it("should return params with non-word names", () => {
+      expect(getParamsInPath("/users/{user.id}/pets/{pet-id}")).toEqual(["user.id", "pet-id"]);
+    });
+  });
+
+  describe("getParamIdentifier", () => {
+    [
+      { name: "id", expected: "id" },
+      { name: "pet-id", expected: "petId" },
+      { name: "user.id", expected: "userId" },
+      { name: "default", expected: "_default" },
+      { name: "1st", expected: "_1st" },
+    ].forEach(({ name, expected }) =>
+      it(`should return ${expected} for ${name}`, () => {
+        expect(getParamIdentifier(name)).toEqual(expected);
+      }),
+    );
+  });
+
+  describe("getPathParamTemplate", () => {
+    ([
+      { param: { name: "id", in: "path" }, isArray: false, expected: `\${encodeURIComponent(id)}` },
+      { param: { name: "id", in: "path" }, isArray: true, expected: `\${id.map(encodeURIComponent).join(",")}` },
+      { param: { name: "id", in: "path", style: "label" }, isArray: false, expected: `.\${encodeURIComponent(id)}` },
+      {
+        param: { name: "id", in: "path", style: "label" },
+        isArray: true,
+        expected: `.\${id.map(encodeURIComponent).join(",")}`,
+      },
+      {
+        param: { name: "id", in: "path", style: "label", explode: true },
+        isArray: true,
+        expected: `.\${id.map(encodeURIComponent).join(".")}`,
+      },
+      {
+        param: { name: "id", in: "path", style: "matrix" },
+        isArray: false,
+        expected: `;id=\${encodeURIComponent(id)}`,
+      },
+      {
+        param: { name: "id", in: "path", style: "matrix" },
+        isArray: true,
+        expected: `;id=\${id.map(encodeURIComponent).join(",")}`,
+      },
+      {
+        param: { name: "id", in: "path", style: "matrix", explode: true },
+        isArray: true,
+        expected: `\${id.map(i => \`;id=\${encodeURIComponent(i)}\`).join("")}`,
+      },
+    ] as Array<{ param: ParameterObject; isArray: boolean; expected: string }>).forEach(
+      ({ param, isArray, expected }) =>
+        it(`should return ${expected} for ${JSON.stringify(param)}${isArray ? " (array)" : ""}`, () => {
+          expect(getPathParamTemplate(param, param.name, isArray)).toEqual(expected);
+        }),
+    );
+
+    it("should map the path params of the route to safe identifiers", () => {
+      const operation: OperationObject = {
+        operationId: "getPet",
+        parameters: [
+          { name: "user.id", in: "path", required: true, schema: { type: "string" } },
+          { name: "pet-id", in: "path", required: true, schema: { type: "integer" } },
+          {
+            name: "tags",
+            in: "path",
+            required: true,
+            style: "matrix",
+            schema: { type: "array", items: { type: "string" } },
+          },
+        ],
+        responses: { 200: { description: "ok", content: { "application/json": { schema: { type: "string" } } } } },
+      };
+      const { component } = generateRestfulComponent(operation, "get", "/users/{user.id}/pets/{pet-id}{tags}", []);
+
+      expect(component.route).toEqual(
+        `/users/\${encodeURIComponent(userId)}/pets/\${encodeURIComponent(petId)};tags=\${tags.map(encodeURIComponent).join(",")}`,
+      );
+      expect(component.paramsInPath).toEqual(["userId", "petId", "tags"]);
+      expect(component.paramsTypes).toEqual("userId: string, petId: number, tags: string[]");
+    });
   });
 
   describe("getScalar", () => {
@@ -70,6 +229,12 @@ describe("scripts/import-open-api", () => {
       { item: { type: "date-time" }, expected: "string" },
       { item: { type: "password" }, expected: "string" },
       { item: { type: "string", enum: ["foo", "bar"] }, expected: `"foo" | "bar"` },
+      { item: { type: "integer", enum: [1, 2, 3] }, expected: "1 | 2 | 3" },
+      { item: { type: "number", enum: [1.5, -2] }, expected: "1.5 | -2" },
+      { item: { type: "boolean", enum: [true] }, expected: "true" },
+      { item: { type: "integer", enum: [1, 2, null], nullable: true }, expected: "1 | 2 | null" },
+      { item: { type: "string", enum: ["foo", null], nullable: true }, expected: `"foo" | null` },
+      { item: { type: "boolean", enum: [false, null], nullable: true }, expected: "false | null" },
       { item: { type: "customType" }, expected: "any" },
       { item: { type: "integer", nullable: true }, expected: "number | null" },
       { item: { type: "boolean", nullable: true }, expected: "boolean | null" },
@@ -83,6 +248,102 @@ describe("scripts/import-open-api", () => {
     );
   });
 
+  describe("getScalar (OpenAPI 3.1)", () => {
+    // `type` can be an array in OpenAPI 3.1, this is not supported by `openapi3-ts` typings
+    const items: Array<{ item: any; expected: string }> = [
+      { item: { type: ["string", "null"] }, expected: "string | null" },
+      { item: { type: ["string", "integer"] }, expected: "string | number" },
+      { item: { type: ["integer", "null"], enum: [1, 2, null] }, expected: "1 | 2 | null" },
+      { item: { type: "null" }, expected: "null" },
+      { item: { type: "string", const: "cat" }, expected: `"cat"` },
+      { item: { const: 42 }, expected: "42" },
+    ];
+    items.map(({ item, expected }) =>
+      it(`should return ${expected} as type for ${item.type}`, () => {
+        expect(getScalar(item)).toEqual(expected);
+      }),
+    );
+  });
+
+  describe("getScalar (scalarMapping)", () => {
+    const scalarMapping = {
+      "date-time": "Date",
+      "integer:int64": "bigint",
+      decimal: { type: "Decimal", import: `import { Decimal } from "decimal.js";` },
+    };
+
+    it("should map a format to a custom type", () => {
+      expect(getScalar({ type: "string", format: "date-time" }, createContext({ scalarMapping }))).toEqual("Date");
+    });
+
+    it("should map a type and format to a custom type", () => {
+      expect(getScalar({ type: "integer", format: "int64" }, createContext({ scalarMapping }))).toEqual("bigint");
+      expect(getScalar({ type: "string", format: "int64" }, createContext({ scalarMapping }))).toEqual("string");
+    });
+
+    it("should keep the nullability", () => {
+      expect(
+        getScalar({ type: "string", format: "date-time", nullable: true }, createContext({ scalarMapping })),
+      ).toEqual("Date | null");
+    });
+
+    it("should register the imports only once", () => {
+      const context = createContext({ scalarMapping });
+      expect(getScalar({ type: "string", format: "decimal" }, context)).toEqual("Decimal");
+      expect(getScalar({ type: "number", format: "decimal" }, context)).toEqual("Decimal");
+      expect(context.imports).toEqual([`import { Decimal } from "decimal.js";`]);
+    });
+
+    it("should add the imports to the generated header", async () => {
+      const input = JSON.stringify({
+        openapi: "3.0.0",
+        info: { title: "Test", version: "0.0.1" },
+        paths: {},
+        components: {
+          schemas: {
+            Invoice: {
+              type: "object",
+              properties: {
+                total: { type: "string", format: "decimal" },
+                tax: { type: "string", format: "decimal" },
+                createdAt: { type: "string", format: "date-time" },
+              },
+            },
+          },
+        },
+      });
+      const data = await importOpenApi({
+        data: input,
+        format: "json",
+        customImport: `import { HttpClient } from "./Http";`,
+        scalarMapping,
+      });
+      expect(data).toMatchInlineSnapshot(`
+        "/* Generated by oats-generator */
+
+        import { HttpClient } from \\"./Http\\";
+
+        import { Decimal } from \\"decimal.js\\";
+
+        export interface Invoice {
+          /**
+           * @format decimal
+           */
+          total?: Decimal;
+          /**
+           * @format decimal
+           */
+          tax?: Decimal;
+          /**
+           * @format date-time
+           */
+          createdAt?: Date;
+        }
+        "
+      `);
+    });
+  });
+
   describe("getRef", () => {
     it("should return the name from `#/components/schemas`", () => {
       expect(getRef("#/components/schemas/foo")).toEqual("Foo");
@@ -103,6 +364,101 @@ describe("scripts/import-open-api", () => {
     });
   });
 
+  describe("registerName", () => {
+    it("should always return the same name for a declaration", () => {
+      const context = createContext();
+      expect(registerName("#/components/schemas/pet_list", "PetList", context)).toEqual("PetList");
+      expect(registerName("#/components/schemas/pet_list", "PetList", context)).toEqual("PetList");
+    });
+
+    it("should add a suffix on collision by default", () => {
+      const context = createContext();
+      registerName("#/components/schemas/pet_list", "PetList", context);
+      expect(registerName("#/components/schemas/PetList", "PetList", context)).toEqual("PetList2");
+    });
+
+    it("should add a prefix on collision", () => {
+      const context = createContext({ namingStrategy: "prefix" });
+      registerName("#/components/schemas/ListPetsResponse", "ListPetsResponse", context);
+      expect(registerName("#/components/responses/ListPets", "ListPetsResponse", context)).toEqual(
+        "ResponseListPetsResponse",
+      );
+      expect(registerName("#/paths/~1pets/get:Response", "ListPetsResponse", context)).toEqual(
+        "OperationListPetsResponse",
+      );
+    });
+
+    it("should throw on collision", () => {
+      const context = createContext({ namingStrategy: "error" });
+      registerName("#/components/schemas/pet_list", "PetList", context);
+      expect(() => registerName("#/components/schemas/PetList", "PetList", context)).toThrowErrorMatchingInlineSnapshot(
+        `"\\"PetList\\" is declared twice: #/components/schemas/pet_list and #/components/schemas/PetList"`,
+      );
+    });
+
+    it("should keep the references consistent", async () => {
+      const input = JSON.stringify({
+        openapi: "3.0.0",
+        info: { title: "Test", version: "0.0.1" },
+        paths: {
+          "/pets": {
+            get: {
+              operationId: "listPets",
+              responses: {
+                "200": {
+                  description: "ok",
+                  content: {
+                    "application/json": { schema: { type: "object", properties: { next: { type: "string" } } } },
+                  },
+                },
+              },
+            },
+          },
+        },
+        components: {
+          schemas: {
+            pet_list: { type: "array", items: { $ref: "#/components/schemas/PetList" } },
+            PetList: { type: "object", properties: { name: { type: "string" } } },
+            ListPetsResponse: { type: "object", properties: { pets: { $ref: "#/components/schemas/pet_list" } } },
+          },
+        },
+      });
+
+      const data = await importOpenApi({
+        data: input,
+        format: "json",
+        customGenerator: ({ componentName, typeNames }) => `export type ${componentName}Data = ${typeNames.response};`,
+      });
+
+      expect(data).toMatchInlineSnapshot(`
+        "/* Generated by oats-generator */
+
+        export type PetList = PetList2[];
+
+        export interface PetList2 {
+          name?: string;
+        }
+
+        export interface ListPetsResponse {
+          pets?: PetList;
+        }
+
+        export interface ListPetsResponse2 {
+          next?: string;
+        }
+
+        export interface ListPetsResponses {
+          /**
+           * ok
+           */
+          200: ListPetsResponse2;
+        }
+        export type ListPetsData = ListPetsResponse2;
+        "
+      `);
+    });
+  });
+
   describe("getArray", () => {
     it("should return an array of number", () => {
       const item = {
@@ -167,6 +523,172 @@ describe("scripts/import-open-api", () => {
     });
   });
 
+  describe("getArray (compositions)", () => {
+    it("should return an array of anyOf", () => {
+      const item = {
+        type: "array",
+        items: {
+          anyOf: [{ $ref: "#/components/schemas/foo" }, { $ref: "#/components/schemas/bar" }],
+        },
+      };
+      expect(getArray(item)).toEqual("(Foo | Bar)[]");
+    });
+
+    it("should return an array of nullable items", () => {
+      const item = {
+        type: "array",
+        items: { type: "string", nullable: true },
+      };
+      expect(getArray(item)).toEqual("(string | null)[]");
+    });
+
+    it("should return an array of not", () => {
+      const item = {
+        type: "array",
+        items: { not: { type: "string" } },
+      };
+      expect(getArray(item)).toEqual("unknown[]");
+    });
+  });
+
+  describe("getArray (prefixItems)", () => {
+    it("should return a tuple", () => {
+      const item = {
+        type: "array",
+        prefixItems: [{ type: "number" }, { $ref: "#/components/schemas/foo" }],
+      };
+      expect(getArray(item)).toEqual("[number, Foo]");
+    });
+
+    it("should return a tuple with rest elements", () => {
+      const item = {
+        type: "array",
+        prefixItems: [{ type: "string" }],
+        items: { type: "integer" },
+      };
+      expect(getArray(item)).toEqual("[string, ...number[]]");
+    });
+  });
+
+  describe("getArray (tuples)", () => {
+    it("should return a tuple for fixed length arrays", () => {
+      const item = { type: "array", items: { type: "number" }, minItems: 2, maxItems: 2 };
+      expect(getArray(item)).toEqual("[number, number]");
+    });
+
+    it("should keep an array if the length is not fixed", () => {
+      const item = { type: "array", items: { type: "number" }, minItems: 2, maxItems: 3 };
+      expect(getArray(item)).toEqual("number[]");
+    });
+
+    it("should keep an array for long fixed length arrays", () => {
+      const item = { type: "array", items: { type: "number" }, minItems: 100, maxItems: 100 };
+      expect(getArray(item)).toEqual("number[]");
+    });
+
+    it("should return unknown[] with a warning if items is missing", () => {
+      const context = createContext();
+      expect(getArray({ type: "array" }, { ...context, pointer: "#/components/schemas/Coordinates" })).toEqual(
+        "unknown[]",
+      );
+      expect(context.warnings).toEqual([
+        "The array #/components/schemas/Coordinates has no `items`, it is typed as `unknown[]`",
+      ]);
+    });
+  });
+
+  describe("getDocumentation", () => {
+    [
+      { item: { type: "string" }, expected: undefined },
+      { item: { type: "string", description: "Name" }, expected: "Name" },
+      { item: { type: "string", deprecated: true }, expected: "@deprecated" },
+      { item: { type: "string", format: "uuid" }, expected: "@format uuid" },
+      { item: { type: "string", default: "rex" }, expected: `@default "rex"` },
+      { item: { type: "string", example: "rex" }, expected: `@example "rex"` },
+      { item: { type: "string", examples: ["rex", "max"] }, expected: `@example "rex"\n@example "max"` },
+      { item: { type: "integer", minimum: 0, maximum: 10 }, expected: "@minimum 0\n@maximum 10" },
+      { item: { type: "integer", minimum: 0, exclusiveMinimum: true }, expected: "@exclusiveMinimum 0" },
+      { item: { type: "integer", exclusiveMaximum: 10 }, expected: "@exclusiveMaximum 10" },
+      { item: { type: "string", minLength: 1, maxLength: 20 }, expected: "@minLength 1\n@maxLength 20" },
+      { item: { type: "string", pattern: "^[a-z]*/$" }, expected: "@pattern ^[a-z]*\\/$" },
+      {
+        item: { type: "array", items: { type: "string" }, minItems: 1, uniqueItems: true },
+        expected: "@minItems 1\n@uniqueItems",
+      },
+      {
+        item: { type: "string", description: "Name", externalDocs: { url: "https://docs.io", description: "Docs" } },
+        expected: "Name\n\n@see https://docs.io Docs",
+      },
+      {
+        item: {
+          name: "limit",
+          in: "query",
+          description: "Limit",
+          schema: { type: "integer", maximum: 100, example: 20 },
+        },
+        expected: "Limit\n\n@maximum 100\n@example 20",
+      },
+      {
+        item: { name: "tag", in: "query", schema: { type: "string" }, examples: { cute: { value: "cute" } } },
+        expected: `@example "cute"`,
+      },
+      {
+        item: { operationId: "listPets", deprecated: true, responses: {} },
+        expected: "@deprecated",
+      },
+    ].forEach(({ item, expected }) =>
+      it(`should return ${JSON.stringify(expected)} for ${JSON.stringify(item)}`, () =>
+        expect(getDocumentation(item)).toEqual(expected)),
+    );
+
+    it("should document the properties of an object", () => {
+      const item: SchemaObject = {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Name of the pet", maxLength: 20, example: "Rex" },
+          birthDate: { type: "string", format: "date", deprecated: true },
+        },
+      };
+
+      expect(getObject(item)).toMatchInlineSnapshot(`
+        "{
+          /**
+           * Name of the pet
+           * 
+           * @maxLength 20
+           * @example \\"Rex\\"
+           */
+          name?: string;
+          /**
+           * @deprecated
+           * @format date
+           */
+          birthDate?: string;
+        }"
+      `);
+    });
+
+    it("should document the operation", () => {
+      const operation: OperationObject = {
+        operationId: "listPets",
+        summary: "List all pets",
+        deprecated: true,
+        externalDocs: { url: "https://docs.io/pets" },
+        responses: {},
+      };
+
+      expect(generateRestfulComponent(operation, "get", "/pets", []).component.description).toMatchInlineSnapshot(`
+        "/**
+         * List all pets
+         * 
+         * @deprecated
+         * @see https://docs.io/pets
+         */
+        "
+      `);
+    });
+  });
+
   describe("getObject", () => {
     it("should return the type of a standard object", () => {
       const item = {
@@ -331,6 +853,60 @@ describe("scripts/import-open-api", () => {
                                                                 }"
                                                 `);
     });
+    it("should deal with anyOf", () => {
+      const item = {
+        anyOf: [{ $ref: "#/components/schemas/foo" }, { type: "string" }],
+      };
+      expect(getObject(item)).toEqual("Foo | string");
+    });
+
+    it("should deal with allOf and sibling properties", () => {
+      const item = {
+        type: "object",
+        allOf: [{ $ref: "#/components/schemas/foo" }, { $ref: "#/components/schemas/bar" }],
+        required: ["name"],
+        properties: {
+          name: { type: "string" },
+        },
+      };
+      expect(getObject(item)).toMatchInlineSnapshot(`
+        "Foo & Bar & {
+          name: string;
+        }"
+      `);
+    });
+
+    it("should deal with oneOf and sibling properties", () => {
+      const item = {
+        oneOf: [{ $ref: "#/components/schemas/foo" }, { $ref: "#/components/schemas/bar" }],
+        properties: {
+          name: { type: "string" },
+        },
+      };
+      expect(getObject(item)).toMatchInlineSnapshot(`
+        "(Foo | Bar) & {
+          name?: string;
+        }"
+      `);
+    });
+
+    it("should deal with nested compositions", () => {
+      const item = {
+        allOf: [
+          { $ref: "#/components/schemas/foo" },
+          { anyOf: [{ $ref: "#/components/schemas/bar" }, { $ref: "#/components/schemas/baz" }] },
+        ],
+      };
+      expect(getObject(item)).toEqual("Foo & (Bar | Baz)");
+    });
+
+    it("should deal with not", () => {
+      const item = {
+        not: { type: "string" },
+      };
+      expect(getObject(item)).toEqual("unknown");
+    });
+
     it("should handle empty properties (1)", () => {
       const item = {
         properties: {},
@@ -363,18 +939,65 @@ describe("scripts/import-open-api", () => {
     });
   });
 
-  describe("resolveDiscriminator", () => {
-    it("should propagate any discrimator value as enum", () => {
+  describe("liftSchemaDefs", () => {
+    it("should lift $defs into components and update refs", () => {
       const specs: OpenAPIObject = {
-        openapi: "3.0.0",
-        info: {
-          title: "Test",
-          description: "Test",
-          version: "0.0.1",
-          contact: {
-            name: "Fabien Bernard",
-            url: "https://fabien0102.com",
-            email: "fabien@contiamo.com",
+        openapi: "3.1.0",
+        info: { title: "Test", version: "0.0.1" },
+        paths: {},
+        $defs: {
+          Id: { type: "string" },
+        },
+        components: {
+          schemas: {
+            Pet: {
+              type: "object",
+              properties: {
+                id: { $ref: "#/$defs/Id" },
+                tag: { $ref: "#/components/schemas/Pet/$defs/Tag" },
+              },
+              $defs: {
+                Tag: { type: "object", properties: { name: { type: "string" } } },
+              },
+            },
+          },
+        },
+      };
+
+      expect(liftSchemaDefs(specs)).toEqual({
+        openapi: "3.1.0",
+        info: { title: "Test", version: "0.0.1" },
+        paths: {},
+        components: {
+          schemas: {
+            Id: { type: "string" },
+            Pet: {
+              type: "object",
+              properties: {
+                id: { $ref: "#/components/schemas/Id" },
+                tag: { $ref: "#/components/schemas/PetTag" },
+              },
+            },
+            PetTag: { type: "object", properties: { name: { type: "string" } } },
+          },
+        },
+      });
+      expect(specs.components!.schemas!.Pet).toHaveProperty("$defs");
+    });
+  });
+
+  describe("resolveDiscriminator", () => {
+    it("should propagate any discrimator value as enum", () => {
+      const specs: OpenAPIObject = {
+        openapi: "3.0.0",
+        info: {
+          title: "Test",
+          description: "Test",
+          version: "0.0.1",
+          contact: {
+            name: "Fabien Bernard",
+            url: "https://fabien0102.com",
+            email: "fabien@contiamo.com",
           },
         },
         paths: {},
@@ -421,9 +1044,9 @@ describe("scripts/import-open-api", () => {
         },
       };
 
-      resolveDiscriminator(specs);
+      const output = resolveDiscriminator(specs);
 
-      expect(specs?.components?.schemas?.GeneralError).toEqual({
+      expect(output?.components?.schemas?.GeneralError).toEqual({
         type: "object",
         properties: {
           type: {
@@ -437,7 +1060,7 @@ describe("scripts/import-open-api", () => {
         required: ["type", "message"],
       });
 
-      expect(specs?.components?.schemas?.FieldError).toEqual({
+      expect(output?.components?.schemas?.FieldError).toEqual({
         type: "object",
         properties: {
           type: {
@@ -454,6 +1077,142 @@ describe("scripts/import-open-api", () => {
         required: ["type", "message", "key"],
       });
     });
+
+    it("should not mutate the original spec", () => {
+      const specs: OpenAPIObject = {
+        openapi: "3.0.0",
+        info: { title: "Test", version: "0.0.1" },
+        paths: {},
+        components: {
+          schemas: {
+            Pet: {
+              oneOf: [{ $ref: "#/components/schemas/Cat" }],
+              discriminator: { propertyName: "type" },
+            },
+            Cat: { type: "object", properties: { type: { type: "string" } } },
+          },
+        },
+      };
+
+      resolveDiscriminator(specs);
+
+      expect(specs?.components?.schemas?.Cat).toEqual({ type: "object", properties: { type: { type: "string" } } });
+    });
+
+    it("should use the schema name without explicit mapping", () => {
+      const specs: OpenAPIObject = {
+        openapi: "3.0.0",
+        info: { title: "Test", version: "0.0.1" },
+        paths: {},
+        components: {
+          schemas: {
+            Pet: {
+              oneOf: [{ $ref: "#/components/schemas/Cat" }, { $ref: "#/components/schemas/Dog" }],
+              discriminator: { propertyName: "petType", mapping: { dog: "Dog", puppy: "#/components/schemas/Dog" } },
+            },
+            Cat: { type: "object", properties: { name: { type: "string" } } },
+            Dog: { type: "object", properties: { petType: { type: "string" } } },
+          },
+        },
+      };
+
+      const output = resolveDiscriminator(specs);
+
+      expect(output?.components?.schemas?.Cat).toEqual({
+        type: "object",
+        properties: { name: { type: "string" }, petType: { type: "string", enum: ["Cat"] } },
+      });
+      expect(output?.components?.schemas?.Dog).toEqual({
+        type: "object",
+        properties: { petType: { type: "string", enum: ["dog", "puppy"] } },
+      });
+    });
+  });
+
+  describe("generateDiscriminatorHelpers", () => {
+    it("should generate type guards and an exhaustive matcher", () => {
+      const schemas = {
+        Pet: {
+          oneOf: [{ $ref: "#/components/schemas/Cat" }, { $ref: "#/components/schemas/Dog" }],
+          discriminator: { propertyName: "pet-type", mapping: { dog: "Dog", puppy: "#/components/schemas/Dog" } },
+        },
+        Cat: { type: "object", properties: { name: { type: "string" } } },
+        Dog: { type: "object", properties: { bark: { type: "boolean" } } },
+      };
+
+      expect(generateDiscriminatorHelpers(schemas)).toMatchInlineSnapshot(`
+        "
+        export const isCat = (pet: Pet): pet is Cat => pet[\\"pet-type\\"] === \\"Cat\\";
+
+        export const isDog = (pet: Pet): pet is Dog => pet[\\"pet-type\\"] === \\"dog\\" || pet[\\"pet-type\\"] === \\"puppy\\";
+
+        export const matchPet = <T>(pet: Pet, matchers: { Cat: (pet: Cat) => T; Dog: (pet: Dog) => T }): T => {
+          if (isCat(pet)) { return matchers.Cat(pet); }
+          if (isDog(pet)) { return matchers.Dog(pet); }
+          throw new Error(\`Unknown Pet: \${JSON.stringify(pet)}\`);
+        };
+        "
+      `);
+    });
+
+    it("should ignore unions without discriminator or with inline members", () => {
+      const schemas = {
+        Pet: { oneOf: [{ $ref: "#/components/schemas/Cat" }, { $ref: "#/components/schemas/Dog" }] },
+        Animal: {
+          oneOf: [{ $ref: "#/components/schemas/Cat" }, { type: "object" }],
+          discriminator: { propertyName: "type" },
+        },
+      };
+
+      expect(generateDiscriminatorHelpers(schemas)).toEqual("");
+    });
+
+    it("should generate discriminated unions from a spec", async () => {
+      const input = JSON.stringify({
+        openapi: "3.0.0",
+        info: { title: "Test", version: "0.0.1" },
+        paths: {},
+        components: {
+          schemas: {
+            Pet: {
+              oneOf: [{ $ref: "#/components/schemas/Cat" }, { $ref: "#/components/schemas/Dog" }],
+              discriminator: { propertyName: "type", mapping: { cat: "Cat", dog: "Dog" } },
+            },
+            Cat: { type: "object", required: ["type"], properties: { type: { type: "string" } } },
+            Dog: { type: "object", required: ["type"], properties: { type: { type: "string" } } },
+          },
+        },
+      });
+
+      expect(await importOpenApi({ data: input, format: "json", enumStyle: "enum" })).toMatchInlineSnapshot(`
+        "/* Generated by oats-generator */
+
+        export type Pet = Cat | Dog;
+
+        export interface Cat {
+          type: \\"cat\\";
+        }
+
+        export interface Dog {
+          type: \\"dog\\";
+        }
+
+        export const isCat = (pet: Pet): pet is Cat => pet.type === \\"cat\\";
+
+        export const isDog = (pet: Pet): pet is Dog => pet.type === \\"dog\\";
+
+        export const matchPet = <T>(pet: Pet, matchers: { Cat: (pet: Cat) => T; Dog: (pet: Dog) => T }): T => {
+          if (isCat(pet)) {
+            return matchers.Cat(pet);
+          }
+          if (isDog(pet)) {
+            return matchers.Dog(pet);
+          }
+          throw new Error(\`Unknown Pet: \${JSON.stringify(pet)}\`);
+        };
+        "
+      `);
+    });
   });
 
   describe("generateSchemasDefinition", () => {
@@ -514,11 +1273,14 @@ describe("scripts/import-open-api", () => {
         },
       };
       expect(generateSchemasDefinition(schema)).toMatchInlineSnapshot(`
-                        "export type Pet = NewPet & {
-                          id: number;
-                        };
-                        "
-                  `);
+        "export type Pet = NewPet & {
+          /**
+           * @format int64
+           */
+          id: number;
+        };
+        "
+      `);
     });
 
     it("should declare a discriminate object", () => {
@@ -531,11 +1293,56 @@ describe("scripts/import-open-api", () => {
         },
       };
       expect(generateSchemasDefinition(schema)).toMatchInlineSnapshot(`
-                        "export type Pet = NewPet | {
-                          id: number;
-                        };
-                        "
-                  `);
+        "export type Pet = NewPet | {
+          /**
+           * @format int64
+           */
+          id: number;
+        };
+        "
+      `);
+    });
+
+    it("should declare a type for anyOf", () => {
+      const schema = {
+        SearchFilter: {
+          anyOf: [{ $ref: "#/components/schemas/TextFilter" }, { $ref: "#/components/schemas/DateFilter" }],
+        },
+      };
+      expect(generateSchemasDefinition(schema)).toContain(`export type SearchFilter = TextFilter | DateFilter;`);
+    });
+
+    it("should declare a type for not", () => {
+      const schema = {
+        NotAString: {
+          not: { type: "string" },
+        },
+      };
+      expect(generateSchemasDefinition(schema)).toMatchInlineSnapshot(`
+        "/**
+         * @not {\\"type\\":\\"string\\"} (not checked: \`not\` can't be expressed in typescript)
+         */
+        export type NotAString = unknown;
+        "
+      `);
+    });
+
+    it("should document the not of a property", () => {
+      const schema = {
+        Filter: {
+          type: "object",
+          properties: { value: { not: { $ref: "#/components/schemas/Range" } } },
+        },
+      };
+      expect(generateSchemasDefinition(schema)).toMatchInlineSnapshot(`
+        "export interface Filter {
+          /**
+           * @not {\\"$ref\\":\\"#/components/schemas/Range\\"} (not checked: \`not\` can't be expressed in typescript)
+           */
+          value?: unknown;
+        }
+        "
+      `);
     });
 
     it("should declare a type for all others types", () => {
@@ -570,78 +1377,594 @@ describe("scripts/import-open-api", () => {
     });
   });
 
-  describe("generateResponsesDefinition", () => {
-    it("should declare an interface for simple object", () => {
-      const responses: ComponentsObject["responses"] = {
-        JobRun: {
-          description: "Job is starting",
-          content: {
-            "application/json": {
-              schema: {
-                type: "object",
-                properties: {
-                  executionID: {
-                    description: "ID of the job execution",
-                    type: "string",
-                  },
-                },
-              },
-            },
+  describe("enumStyle", () => {
+    const schemas: ComponentsObject["schemas"] = {
+      Status: {
+        description: "Status of a pet",
+        type: "string",
+        enum: ["available", "in-progress", "1st"],
+      },
+      Pet: {
+        type: "object",
+        required: ["status"],
+        properties: {
+          status: { $ref: "#/components/schemas/Status" },
+          size: { type: "string", enum: ["small", "big"], nullable: true },
+          tags: { type: "array", items: { type: "string", enum: ["cute", "fluffy"] } },
+        },
+      },
+    };
+
+    it("should keep inline unions by default", () => {
+      const context = createContext();
+      expect(generateSchemasDefinition(schemas, context)).toContain(`size?: "small" | "big" | null;`);
+      expect(generateEnumsDefinition(context)).toEqual("");
+    });
+
+    it("should generate enum declarations", () => {
+      const context = createContext({ enumStyle: "enum" });
+      expect(generateSchemasDefinition(schemas, context)).toMatchInlineSnapshot(`
+        "export interface Pet {
+          status: Status;
+          size?: PetSize | null;
+          tags?: PetTags[];
+        }
+        "
+      `);
+      expect(generateEnumsDefinition(context)).toMatchInlineSnapshot(`
+        "/**
+         * Status of a pet
+         */
+        export enum Status {
+          Available = \\"available\\",
+          InProgress = \\"in-progress\\",
+          _1st = \\"1st\\",
+        }
+
+        export enum PetSize {
+          Small = \\"small\\",
+          Big = \\"big\\",
+        }
+
+        export enum PetTags {
+          Cute = \\"cute\\",
+          Fluffy = \\"fluffy\\",
+        }
+        "
+      `);
+    });
+
+    it("should generate const objects", () => {
+      const context = createContext({ enumStyle: "const" });
+      generateSchemasDefinition(schemas, context);
+      expect(generateEnumsDefinition(context)).toMatchInlineSnapshot(`
+        "/**
+         * Status of a pet
+         */
+        export const Status = {
+          Available: \\"available\\",
+          InProgress: \\"in-progress\\",
+          _1st: \\"1st\\",
+        } as const;
+
+        export type Status = typeof Status[keyof typeof Status];
+
+        export const PetSize = {
+          Small: \\"small\\",
+          Big: \\"big\\",
+        } as const;
+
+        export type PetSize = typeof PetSize[keyof typeof PetSize];
+
+        export const PetTags = {
+          Cute: \\"cute\\",
+          Fluffy: \\"fluffy\\",
+        } as const;
+
+        export type PetTags = typeof PetTags[keyof typeof PetTags];
+        "
+      `);
+    });
+
+    it("should not override a schema with a hoisted enum", () => {
+      const context = createContext({ enumStyle: "enum" });
+      generateSchemasDefinition(
+        {
+          Pet: { type: "object", properties: { status: { type: "string", enum: ["sold", "available"] } } },
+          PetStatus: { type: "object" },
+        },
+        context,
+      );
+      expect(Object.keys(context.enums)).toEqual(["PetStatus2"]);
+    });
+
+    it("should keep the null of the nullable enum schemas", () => {
+      const context = createContext({ enumStyle: "enum" });
+      expect(
+        generateSchemasDefinition(
+          {
+            Status: { type: ["string", "null"] as any, enum: ["available", "sold", null] },
+            Size: { type: "string", enum: ["small", "big"], nullable: true },
+            Color: { type: "string", enum: ["red", "blue", null] },
           },
+          context,
+        ),
+      ).toMatchInlineSnapshot(`
+        "export type Status = \\"available\\" | \\"sold\\" | null;
+
+        export type Size = \\"small\\" | \\"big\\" | null;
+
+        export type Color = \\"red\\" | \\"blue\\" | null;
+        "
+      `);
+      expect(generateEnumsDefinition(context)).toEqual("");
+    });
+
+    it("should generate numeric enum declarations", () => {
+      const context = createContext({ enumStyle: "enum" });
+      generateSchemasDefinition(
+        {
+          Priority: { type: "integer", enum: [1, 2], "x-enum-varnames": ["Low", "High"] },
+          Paid: { type: "boolean", enum: [true] },
         },
-      };
+        context,
+      );
+      expect(generateEnumsDefinition(context)).toMatchInlineSnapshot(`
+        "export enum Priority {
+          Low = 1,
+          High = 2,
+        }
+        "
+      `);
+    });
 
-      expect(generateResponsesDefinition(responses)).toMatchInlineSnapshot(`
-                                                                        "
-                                                                        /**
-                                                                         * Job is starting
-                                                                         */
-                                                                        export interface JobRunResponse {
-                                                                          /**
-                                                                           * ID of the job execution
-                                                                           */
-                                                                          executionID?: string;
-                                                                        }
-                                                                        "
-                                                      `);
+    it("should use x-enum-varnames as member names", () => {
+      expect(getEnumMembers({ type: "string", enum: ["a", "b"], "x-enum-varnames": ["First", "Second"] })).toEqual([
+        ["First", `"a"`],
+        ["Second", `"b"`],
+      ]);
     });
 
-    it("should give double quotes for special properties", () => {
-      const responses: ComponentsObject["responses"] = {
-        JobRun: {
-          description: "Job is starting",
-          content: {
-            "application/json": {
-              schema: {
-                type: "object",
-                properties: {
-                  "execution-id": {
-                    description: "ID of the job execution",
-                    type: "string",
-                  },
-                },
+    it("should use x-enumNames as member names", () => {
+      expect(getEnumMembers({ type: "string", enum: ["a", "b"], "x-enumNames": ["First", "Second"] })).toEqual([
+        ["First", `"a"`],
+        ["Second", `"b"`],
+      ]);
+    });
+
+    it("should sanitize invalid member names", () => {
+      expect(getEnumMembers({ type: "string", enum: ["", "1st", "a.b", "A B", "a-b"] })).toEqual([
+        ["Empty", `""`],
+        ["_1st", `"1st"`],
+        ["AB", `"a.b"`],
+        ["AB2", `"A B"`],
+        ["AB3", `"a-b"`],
+      ]);
+    });
+  });
+
+  describe("hoistObjects", () => {
+    const address = {
+      type: "object",
+      required: ["city"],
+      properties: { city: { type: "string" }, zip: { type: "string" } },
+    };
+
+    it("should keep inline objects by default", () => {
+      const context = createContext();
+      getObject({ type: "object", properties: { address } }, { ...context, name: "Order" });
+      expect(context.objects).toEqual({});
+    });
+
+    it("should hoist nested objects with their path as name", () => {
+      const context = createContext({ hoistObjects: true });
+      const type = getObject(
+        {
+          type: "object",
+          properties: {
+            shipping: {
+              type: "object",
+              description: "Shipping information",
+              properties: {
+                address,
+                lines: { type: "array", items: { type: "object", properties: { sku: { type: "string" } } } },
               },
             },
+            metadata: { type: "object", additionalProperties: address },
           },
         },
-      };
+        { ...context, name: "Order" },
+      );
 
-      expect(generateResponsesDefinition(responses)).toMatchInlineSnapshot(`
-                                                                        "
-                                                                        /**
-                                                                         * Job is starting
-                                                                         */
-                                                                        export interface JobRunResponse {
-                                                                          /**
-                                                                           * ID of the job execution
-                                                                           */
-                                                                          \\"execution-id\\"?: string;
-                                                                        }
-                                                                        "
-                                                      `);
-    });
+      expect(type).toMatchInlineSnapshot(`
+        "{
+          /**
+           * Shipping information
+           */
+          shipping?: OrderShipping;
+          metadata?: OrderMetadata;
+        }"
+      `);
+      expect(generateObjectsDefinition(context)).toMatchInlineSnapshot(`
+        "export interface OrderShippingAddress {
+          city: string;
+          zip?: string;
+        }
 
-    it("should declare a a type for composed object", () => {
+        export interface OrderShippingLinesItem {
+          sku?: string;
+        }
+
+        /**
+         * Shipping information
+         */
+        export interface OrderShipping {
+          address?: OrderShippingAddress;
+          lines?: OrderShippingLinesItem[];
+        }
+
+        export interface OrderMetadata {
+          [key: string]: OrderShippingAddress;
+        }
+        "
+      `);
+    });
+
+    it("should reuse structurally identical objects", () => {
+      const context = createContext({ hoistObjects: true });
+      const type = getObject(
+        { type: "object", properties: { billing: address, shipping: { ...address, nullable: true } } },
+        { ...context, name: "Order" },
+      );
+
+      expect(type).toMatchInlineSnapshot(`
+        "{
+          billing?: OrderBilling;
+          shipping?: OrderBilling | null;
+        }"
+      `);
+      expect(Object.keys(context.objects)).toEqual(["OrderBilling"]);
+    });
+
+    it("should not hoist over a schema name", () => {
+      const context = createContext({ hoistObjects: true, schemaNames: ["OrderAddress"] });
+      getObject({ type: "object", properties: { address } }, { ...context, name: "Order" });
+      expect(Object.keys(context.objects)).toEqual(["OrderAddress2"]);
+    });
+
+    it("should reuse hoisted objects in the operations", async () => {
+      const input = JSON.stringify({
+        openapi: "3.0.0",
+        info: { title: "Test", version: "0.0.1" },
+        paths: {
+          "/orders/{id}/address": {
+            get: {
+              operationId: "getOrderAddress",
+              parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+              responses: { "200": { description: "ok", content: { "application/json": { schema: address } } } },
+            },
+          },
+        },
+        components: {
+          schemas: { Order: { type: "object", properties: { address } } },
+        },
+      });
+
+      const data = await importOpenApi({
+        data: input,
+        format: "json",
+        hoistObjects: true,
+        customGenerator: ({ componentName, typeNames }) => `export type ${componentName}Data = ${typeNames.response};`,
+      });
+      expect(data).toMatchInlineSnapshot(`
+        "/* Generated by oats-generator */
+
+        export interface OrderAddress {
+          city: string;
+          zip?: string;
+        }
+
+        export interface Order {
+          address?: OrderAddress;
+        }
+
+        export interface GetOrderAddressResponses {
+          /**
+           * ok
+           */
+          200: OrderAddress;
+        }
+        export type GetOrderAddressData = OrderAddress;
+        "
+      `);
+    });
+  });
+
+  describe("circular schemas", () => {
+    it("should reference a self-referential schema by its name", () => {
+      const treeNode: SchemaObject = { type: "object", required: ["value"], properties: { value: { type: "string" } } };
+      treeNode.properties!.children = { type: "array", items: treeNode };
+
+      expect(generateSchemasDefinition({ TreeNode: treeNode })).toMatchInlineSnapshot(`
+        "export interface TreeNode {
+          value: string;
+          children?: TreeNode[];
+        }
+        "
+      `);
+    });
+
+    it("should hoist a self-referential inline schema", () => {
+      const node: SchemaObject = { type: "object", properties: { value: { type: "string" } } };
+      node.properties!.children = { type: "array", items: node };
+      const context = createContext();
+
+      expect(generateSchemasDefinition({ Tree: { type: "object", properties: { root: node } } }, context))
+        .toMatchInlineSnapshot(`
+        "export interface Tree {
+          root?: TreeRoot;
+        }
+        "
+      `);
+      expect(generateObjectsDefinition(context)).toMatchInlineSnapshot(`
+        "export interface TreeRoot {
+          value?: string;
+          children?: TreeRoot[];
+        }
+        "
+      `);
+    });
+
+    it("should hoist mutually recursive inline schemas", () => {
+      const employee: SchemaObject = { type: "object", properties: { name: { type: "string" } } };
+      const team: SchemaObject = { type: "object", properties: { members: { type: "array", items: employee } } };
+      employee.properties!.team = team;
+      const context = createContext();
+
+      expect(generateSchemasDefinition({ Company: { type: "object", properties: { team } } }, context))
+        .toMatchInlineSnapshot(`
+        "export interface Company {
+          team?: CompanyTeam;
+        }
+        "
+      `);
+      expect(generateObjectsDefinition(context)).toMatchInlineSnapshot(`
+        "export interface CompanyTeam {
+          members?: {
+          name?: string;
+          team?: CompanyTeam;
+        }[];
+        }
+        "
+      `);
+    });
+
+    it("should generate circular schemas from a spec", async () => {
+      const node: SchemaObject = { type: "object", properties: { value: { type: "string" } } };
+      node.properties!.next = node;
+      const data = await importOpenApi({
+        data: JSON.stringify({ openapi: "3.0.0", info: { title: "Test", version: "0.0.1" }, paths: {} }),
+        format: "json",
+        transformer: specs => ({
+          ...specs,
+          components: { schemas: { List: { type: "object", properties: { head: node } } } },
+        }),
+      });
+
+      expect(data).toMatchInlineSnapshot(`
+        "/* Generated by oats-generator */
+
+        export interface ListHead {
+          value?: string;
+          next?: ListHead;
+        }
+
+        export interface List {
+          head?: ListHead;
+        }
+        "
+      `);
+    });
+
+    it("should report the JSON pointers of a cycle without name", () => {
+      const a: SchemaObject = { type: "object", properties: {} };
+      const b: SchemaObject = { type: "object", properties: { a } };
+      a.properties!.b = b;
+
+      expect(() => getObject({ type: "object", properties: { a } })).toThrowErrorMatchingInlineSnapshot(
+        `"Unable to represent a circular schema without name: #/properties/a -> #/properties/a/properties/b -> #/properties/a/properties/b/properties/a"`,
+      );
+    });
+  });
+
+  describe("readOnly / writeOnly", () => {
+    const schemas: ComponentsObject["schemas"] = {
+      Pet: {
+        type: "object",
+        required: ["id", "name", "password"],
+        properties: {
+          id: { type: "integer", readOnly: true },
+          name: { type: "string" },
+          password: { type: "string", writeOnly: true },
+        },
+      },
+      Owner: {
+        type: "object",
+        properties: {
+          pets: { type: "array", items: { $ref: "#/components/schemas/Pet" } },
+        },
+      },
+      Tag: {
+        type: "object",
+        properties: {
+          label: { type: "string" },
+        },
+      },
+    };
+
+    it("should find every schema with readOnly / writeOnly properties", () => {
+      expect(getReadWriteRefs(schemas)).toEqual(["#/components/schemas/Pet", "#/components/schemas/Owner"]);
+    });
+
+    it("should declare a read and a write variant", () => {
+      expect(generateSchemasDefinition(schemas)).toMatchInlineSnapshot(`
+        "export interface Pet {
+          id: number;
+          name: string;
+        }
+
+        export interface PetInput {
+          name: string;
+          password: string;
+        }
+
+        export interface Owner {
+          pets?: Pet[];
+        }
+
+        export interface OwnerInput {
+          pets?: PetInput[];
+        }
+
+        export interface Tag {
+          label?: string;
+        }
+        "
+      `);
+    });
+
+    it("should name the hoisted objects of the write variant after it", () => {
+      const context = createContext({ hoistObjects: true });
+      generateSchemasDefinition(
+        {
+          Pet: {
+            type: "object",
+            properties: {
+              id: { type: "integer", readOnly: true },
+              meta: {
+                type: "object",
+                properties: { createdAt: { type: "string", readOnly: true }, note: { type: "string" } },
+              },
+            },
+          },
+        },
+        context,
+      );
+      expect(generateObjectsDefinition(context)).toMatchInlineSnapshot(`
+        "export interface PetMeta {
+          createdAt?: string;
+          note?: string;
+        }
+
+        export interface PetInputMeta {
+          note?: string;
+        }
+        "
+      `);
+    });
+
+    it("should use the write variant for request bodies", () => {
+      const context = createContext();
+      generateSchemasDefinition(schemas, context);
+
+      const operation: OperationObject = {
+        operationId: "updatePet",
+        requestBody: { content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } } },
+        responses: {
+          "200": {
+            description: "The updated pet",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } },
+          },
+        },
+      };
+
+      const { typeNames } = generateRestfulComponent(
+        operation,
+        "put",
+        "/pets",
+        [],
+        [],
+        undefined,
+        undefined,
+        context,
+      ).component;
+      expect(typeNames.body).toEqual("PetInput");
+      expect(typeNames.response).toEqual("Pet");
+    });
+  });
+
+  describe("generateResponsesDefinition", () => {
+    it("should declare an interface for simple object", () => {
+      const responses: ComponentsObject["responses"] = {
+        JobRun: {
+          description: "Job is starting",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  executionID: {
+                    description: "ID of the job execution",
+                    type: "string",
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      expect(generateResponsesDefinition(responses)).toMatchInlineSnapshot(`
+                                                                        "
+                                                                        /**
+                                                                         * Job is starting
+                                                                         */
+                                                                        export interface JobRunResponse {
+                                                                          /**
+                                                                           * ID of the job execution
+                                                                           */
+                                                                          executionID?: string;
+                                                                        }
+                                                                        "
+                                                      `);
+    });
+
+    it("should give double quotes for special properties", () => {
+      const responses: ComponentsObject["responses"] = {
+        JobRun: {
+          description: "Job is starting",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  "execution-id": {
+                    description: "ID of the job execution",
+                    type: "string",
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      expect(generateResponsesDefinition(responses)).toMatchInlineSnapshot(`
+                                                                        "
+                                                                        /**
+                                                                         * Job is starting
+                                                                         */
+                                                                        export interface JobRunResponse {
+                                                                          /**
+                                                                           * ID of the job execution
+                                                                           */
+                                                                          \\"execution-id\\"?: string;
+                                                                        }
+                                                                        "
+                                                      `);
+    });
+
+    it("should declare a a type for composed object", () => {
       const responses: ComponentsObject["responses"] = {
         JobRun: {
           description: "Job is starting",
@@ -658,67 +1981,1033 @@ describe("scripts/import-open-api", () => {
                       },
                     },
                   },
-                  { $ref: "#/components/schemas/ExecutionID" },
-                ],
+                  { $ref: "#/components/schemas/ExecutionID" },
+                ],
+              },
+            },
+          },
+        },
+      };
+
+      expect(generateResponsesDefinition(responses)).toMatchInlineSnapshot(`
+                                                                        "
+                                                                        /**
+                                                                         * Job is starting
+                                                                         */
+                                                                        export type JobRunResponse = {
+                                                                          /**
+                                                                           * ID of the job execution
+                                                                           */
+                                                                          executionID?: string;
+                                                                        } & ExecutionID;
+                                                                        "
+                                                      `);
+    });
+
+    it("should declare a a type for union object", () => {
+      const responses: ComponentsObject["responses"] = {
+        JobRun: {
+          description: "Job is starting",
+          content: {
+            "application/json": {
+              schema: {
+                oneOf: [
+                  {
+                    type: "object",
+                    properties: {
+                      executionID: {
+                        description: "ID of the job execution",
+                        type: "string",
+                      },
+                    },
+                  },
+                  { $ref: "#/components/schemas/ExecutionID" },
+                ],
+              },
+            },
+          },
+        },
+      };
+
+      expect(generateResponsesDefinition(responses)).toMatchInlineSnapshot(`
+                                                                        "
+                                                                        /**
+                                                                         * Job is starting
+                                                                         */
+                                                                        export type JobRunResponse = {
+                                                                          /**
+                                                                           * ID of the job execution
+                                                                           */
+                                                                          executionID?: string;
+                                                                        } | ExecutionID;
+                                                                        "
+                                                      `);
+    });
+  });
+
+  describe("generateParametersDefinition", () => {
+    it("should declare a type for every parameter", () => {
+      const parameters: ComponentsObject["parameters"] = {
+        limit: {
+          name: "limit",
+          in: "query",
+          description: "maximum number of results to return",
+          schema: { type: "integer" },
+        },
+        status: {
+          name: "status",
+          in: "query",
+          schema: { type: "string", enum: ["available", "sold"] },
+        },
+        filter: {
+          name: "filter",
+          in: "query",
+          content: {
+            "application/json": {
+              schema: { type: "object", properties: { name: { type: "string" } } },
+            },
+          },
+        },
+        pageSize: { $ref: "#/components/parameters/limit" },
+      };
+
+      expect(generateParametersDefinition(parameters)).toMatchInlineSnapshot(`
+        "
+        /**
+         * maximum number of results to return
+         */
+        export type LimitParameter = number;
+
+        export type StatusParameter = \\"available\\" | \\"sold\\";
+
+        export interface FilterParameter {
+          name?: string;
+        }
+
+        export type PageSizeParameter = LimitParameter;
+        "
+      `);
+    });
+
+    it("should generate parameters referenced from a schema", async () => {
+      const input = JSON.stringify({
+        openapi: "3.0.0",
+        info: { title: "Test", version: "0.0.1" },
+        paths: {},
+        components: {
+          parameters: { limit: { name: "limit", in: "query", schema: { type: "integer" } } },
+          schemas: { Page: { type: "object", properties: { limit: { $ref: "#/components/parameters/limit" } } } },
+        },
+      });
+
+      expect(await importOpenApi({ data: input, format: "json" })).toMatchInlineSnapshot(`
+        "/* Generated by oats-generator */
+
+        export interface Page {
+          limit?: LimitParameter;
+        }
+
+        export type LimitParameter = number;
+        "
+      `);
+    });
+  });
+
+  describe("generateHeadersDefinition", () => {
+    it("should declare a type for every header", () => {
+      const headers: ComponentsObject["headers"] = {
+        "X-Rate-Limit": { description: "calls per hour allowed by the user", schema: { type: "integer" } },
+        "X-Request-Id": { schema: { type: "string" } },
+      };
+
+      expect(generateHeadersDefinition(headers)).toMatchInlineSnapshot(`
+        "
+        /**
+         * calls per hour allowed by the user
+         */
+        export type XRateLimitHeader = number;
+
+        export type XRequestIdHeader = string;
+        "
+      `);
+    });
+
+    it("should return an empty string without headers", () => {
+      expect(generateHeadersDefinition({})).toEqual("");
+    });
+  });
+
+  describe("getQuerySerialization", () => {
+    it("should ignore the default serialization", () => {
+      expect(
+        getQuerySerialization([
+          { name: "limit", in: "query" },
+          { name: "tags", in: "query", style: "form", explode: true },
+        ]),
+      ).toEqual({});
+    });
+
+    it("should return the non default serializations", () => {
+      expect(
+        getQuerySerialization([
+          { name: "limit", in: "query" },
+          { name: "tags", in: "query", explode: false },
+          { name: "ids", in: "query", style: "pipeDelimited" },
+          { name: "filter", in: "query", style: "deepObject" },
+          { name: "redirect", in: "query", allowReserved: true },
+        ]),
+      ).toEqual({
+        tags: { style: "form", explode: false },
+        ids: { style: "pipeDelimited", explode: false },
+        filter: { style: "deepObject", explode: true },
+        redirect: { style: "form", explode: true, allowReserved: true },
+      });
+    });
+
+    it("should generate the serialization constant", () => {
+      const operation: OperationObject = {
+        operationId: "listPets",
+        parameters: [
+          { name: "tags", in: "query", style: "pipeDelimited", schema: { type: "array", items: { type: "string" } } },
+        ],
+        responses: { 200: { description: "ok", content: { "application/json": { schema: { type: "string" } } } } },
+      };
+      const { output, component } = generateRestfulComponent(operation, "get", "/pets", []);
+
+      expect(output).toContain(
+        `export const listPetsQueryParamsSerialization = {"tags":{"style":"pipeDelimited","explode":false}} as const;`,
+      );
+      expect(component.querySerialization).toEqual("listPetsQueryParamsSerialization");
+    });
+  });
+
+  describe("responses map", () => {
+    it("should generate a map of the responses by status code", () => {
+      const operation: OperationObject = {
+        operationId: "updatePet",
+        responses: {
+          200: {
+            description: "The pet",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } },
+          },
+          202: {
+            description: "The update job",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/Job" } } },
+          },
+          "4XX": {
+            description: "Client error",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+          },
+          default: { $ref: "#/components/responses/Error" },
+        },
+      };
+      const { output, component } = generateRestfulComponent(operation, "put", "/pets", []);
+
+      expect(output).toMatchInlineSnapshot(`
+        "
+              export interface UpdatePetResponses {
+                /**
+           * The pet
+           */
+          200: Pet;
+          /**
+           * The update job
+           */
+          202: Job;
+          /**
+           * Client error
+           */
+          \\"4XX\\": Error;
+          default: ErrorResponse;
+              }
+            "
+      `);
+      expect(component.typeNames.responses).toEqual("UpdatePetResponses");
+    });
+
+    it("should reference the response type of the operation", () => {
+      const operation: OperationObject = {
+        operationId: "listPets",
+        responses: {
+          200: {
+            description: "ok",
+            content: { "application/json": { schema: { type: "object", properties: { id: { type: "string" } } } } },
+          },
+        },
+      };
+
+      expect(generateRestfulComponent(operation, "get", "/pets", []).output).toContain("200: ListPetsResponse;");
+    });
+
+    it("should name the hoisted responses after their status code", () => {
+      const operation: OperationObject = {
+        operationId: "getPet",
+        responses: {
+          200: {
+            description: "The pet",
+            content: { "application/json": { schema: { type: "object", properties: { id: { type: "string" } } } } },
+          },
+          202: {
+            description: "The job",
+            content: { "application/json": { schema: { type: "object", properties: { jobId: { type: "string" } } } } },
+          },
+          404: {
+            description: "Not found",
+            content: { "application/json": { schema: { type: "object", properties: { reason: { type: "string" } } } } },
+          },
+          default: {
+            description: "Error",
+            content: {
+              "application/json": { schema: { type: "object", properties: { message: { type: "string" } } } },
+            },
+          },
+        },
+      };
+      const context = createContext({ hoistObjects: true });
+      const { output } = generateRestfulComponent(operation, "get", "/pet", [], [], undefined, undefined, context);
+
+      expect(generateObjectsDefinition(context) + output).toMatchInlineSnapshot(`
+        "export interface GetPetResponse200 {
+          id?: string;
+        }
+
+        export interface GetPetResponse202 {
+          jobId?: string;
+        }
+
+        export interface GetPetError404 {
+          reason?: string;
+        }
+
+        export interface GetPetErrorDefault {
+          message?: string;
+        }
+
+              export type GetPetResponse = GetPetResponse200 | GetPetResponse202
+            
+              export interface GetPetResponses {
+                /**
+           * The pet
+           */
+          200: GetPetResponse200;
+          /**
+           * The job
+           */
+          202: GetPetResponse202;
+          /**
+           * Not found
+           */
+          404: GetPetError404;
+          /**
+           * Error
+           */
+          default: GetPetErrorDefault;
+              }
+            "
+      `);
+    });
+  });
+
+  describe("verbs", () => {
+    const input = JSON.stringify({
+      openapi: "3.0.0",
+      info: { title: "files", version: "1.0.0" },
+      paths: {
+        "/files/{id}": {
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          get: { operationId: "getFile", responses: { 200: { description: "ok" } } },
+          head: { operationId: "checkFile", responses: { 200: { description: "ok" } } },
+          options: { operationId: "getFileOptions", responses: { 204: { description: "ok" } } },
+          trace: { operationId: "traceFile", responses: { 200: { description: "ok" } } },
+        },
+      },
+    });
+    const customGenerator: AdvancedOptions["customGenerator"] = ({ componentName, verb }) =>
+      `// ${verb} ${componentName}\n`;
+
+    it("should generate every operation", async () => {
+      const data = await importOpenApi({ data: input, format: "json", customGenerator });
+
+      expect(data).toContain("// get GetFile");
+      expect(data).toContain("// head CheckFile");
+      expect(data).toContain("// options GetFileOptions");
+      expect(data).toContain("// trace TraceFile");
+    });
+
+    it("should warn about the skipped operations", async () => {
+      const log = jest.spyOn(console, "log").mockImplementation(() => undefined);
+      const data = await importOpenApi({ data: input, format: "json", customGenerator, verbs: ["get", "head"] });
+      const logs = log.mock.calls.map(([message]) => message);
+      log.mockRestore();
+
+      expect(data).toContain("// head CheckFile");
+      expect(data).not.toContain("GetFileOptions");
+      expect(logs.find(i => i.includes("are skipped"))).toContain(
+        "The operations OPTIONS /files/{id}, TRACE /files/{id} are skipped (only get, head are generated)",
+      );
+    });
+  });
+
+  describe("generateWebhooks", () => {
+    const specs: OpenAPIObject = {
+      openapi: "3.1.0",
+      info: { title: "petstore", version: "1.0.0" },
+      paths: {
+        "/subscriptions": {
+          post: {
+            operationId: "createSubscription",
+            responses: { 201: { description: "ok" } },
+            callbacks: {
+              onPetSold: {
+                "{$request.body#/callbackUrl}": {
+                  post: {
+                    requestBody: {
+                      content: {
+                        "application/json": {
+                          schema: { type: "object", required: ["id"], properties: { id: { type: "string" } } },
+                        },
+                      },
+                    },
+                    responses: { 204: { description: "ok" } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      webhooks: {
+        petCreated: {
+          post: {
+            summary: "A pet has been created",
+            requestBody: {
+              content: { "application/json": { schema: { $ref: "#/components/schemas/PetCreatedEvent" } } },
+            },
+            responses: {
+              200: {
+                description: "ok",
+                content: {
+                  "application/json": { schema: { type: "object", properties: { ack: { type: "boolean" } } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    it("should generate the types and the handlers of the webhooks and callbacks", () => {
+      const { output, webhooks } = generateWebhooks(specs);
+
+      expect(output).toMatchInlineSnapshot(`
+        "
+        export interface PetCreatedResponse {
+          ack?: boolean;
+        }
+
+        export interface CreateSubscriptionOnPetSoldPayload {
+          id: string;
+        }
+
+        export interface WebhookHandlers {
+          /**
+           * A pet has been created
+           */
+          petCreated: (body: PetCreatedEvent) => Promise<PetCreatedResponse>;
+          createSubscriptionOnPetSold: (body: CreateSubscriptionOnPetSoldPayload) => Promise<void>;
+        }
+        "
+      `);
+      expect(webhooks.map(({ name, route, callback }) => ({ name, route, callback }))).toEqual([
+        { name: "petCreated", route: "petCreated", callback: undefined },
+        {
+          name: "createSubscriptionOnPetSold",
+          route: "{$request.body#/callbackUrl}",
+          callback: { name: "onPetSold", operationId: "createSubscription" },
+        },
+      ]);
+    });
+
+    it("should give the webhooks to customWebhookGenerator", async () => {
+      const data = await importOpenApi({
+        data: JSON.stringify(specs),
+        format: "json",
+        customWebhookGenerator: ({ name, verb, route }) => `// ${verb} ${route}: ${name}\n`,
+      });
+
+      expect(data).toContain("// post petCreated: petCreated");
+      expect(data).toContain("// post {$request.body#/callbackUrl}: createSubscriptionOnPetSold");
+    });
+
+    it("should not generate anything without webhooks", () => {
+      expect(generateWebhooks({ ...specs, paths: {}, webhooks: undefined })).toEqual({ output: "", webhooks: [] });
+    });
+  });
+
+  describe("importOpenApiFiles", () => {
+    const specs: OpenAPIObject = {
+      openapi: "3.0.0",
+      info: { title: "Petstore", version: "1.0.0" },
+      servers: [{ url: "https://api.pets.com/v1", description: "Production server" }],
+      paths: {
+        "/pets": {
+          get: {
+            operationId: "listPets",
+            tags: ["pets"],
+            parameters: [{ name: "status", in: "query", schema: { $ref: "#/components/schemas/PetStatus" } }],
+            responses: {
+              200: {
+                description: "ok",
+                content: {
+                  "application/json": { schema: { type: "array", items: { $ref: "#/components/schemas/Pet" } } },
+                },
+              },
+            },
+          },
+        },
+        "/store/inventory": {
+          get: {
+            operationId: "getInventory",
+            responses: {
+              200: {
+                description: "ok",
+                content: { "application/json": { schema: { $ref: "#/components/schemas/Inventory" } } },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Pet: {
+            type: "object",
+            required: ["name"],
+            properties: {
+              name: { type: "string" },
+              status: { $ref: "#/components/schemas/PetStatus" },
+              birthday: { type: "string", format: "date" },
+            },
+          },
+          PetStatus: { type: "string", enum: ["available", "sold"] },
+          Inventory: { type: "object", additionalProperties: { type: "integer" } },
+        },
+      },
+    };
+
+    it("should generate a module per model and per tag", async () => {
+      const files = await importOpenApiFiles({
+        data: JSON.stringify(specs),
+        format: "json",
+        enumStyle: "const",
+        scalarMapping: { date: { type: "Dayjs", import: 'import { Dayjs } from "dayjs";' } },
+        customImport: `import { client } from "./client";`,
+        customGenerator: ({ componentName, typeNames }) =>
+          `export const ${componentName.toLowerCase()} = () => client.get<${typeNames.response}>();\n`,
+      });
+
+      expect(Object.keys(files)).toEqual([
+        "models/PetStatus.ts",
+        "models/Pet.ts",
+        "models/Inventory.ts",
+        "servers.ts",
+        "pets.ts",
+        "default.ts",
+        "index.ts",
+      ]);
+      expect(files["models/Pet.ts"]).toMatchInlineSnapshot(`
+        "/* Generated by oats-generator */
+
+        import { Dayjs } from \\"dayjs\\";
+        import { PetStatus } from \\"./PetStatus\\";
+
+        export interface Pet {
+          name: string;
+          status?: PetStatus;
+          /**
+           * @format date
+           */
+          birthday?: Dayjs;
+        }
+        "
+      `);
+      expect(files["models/PetStatus.ts"]).toMatchInlineSnapshot(`
+        "/* Generated by oats-generator */
+
+        export const PetStatus = {
+          Available: \\"available\\",
+          Sold: \\"sold\\",
+        } as const;
+
+        export type PetStatus = typeof PetStatus[keyof typeof PetStatus];
+        "
+      `);
+      expect(files["pets.ts"]).toMatchInlineSnapshot(`
+        "/* Generated by oats-generator */
+
+        import { client } from \\"./client\\";
+
+        import { PetStatus } from \\"./models/PetStatus\\";
+        import { Pet } from \\"./models/Pet\\";
+
+        export interface ListPetsResponses {
+          /**
+           * ok
+           */
+          200: Pet[];
+        }
+
+        export interface ListPetsQueryParams {
+          status?: PetStatus;
+        }
+        export const listpets = () => client.get<Pet[]>();
+        "
+      `);
+      expect(files["index.ts"]).toMatchInlineSnapshot(`
+        "/* Generated by oats-generator */
+
+        export * from \\"./models/PetStatus\\";
+        export * from \\"./models/Pet\\";
+        export * from \\"./models/Inventory\\";
+        export * from \\"./servers\\";
+        export * from \\"./pets\\";
+        export * from \\"./default\\";
+        "
+      `);
+    });
+
+    it("should share the declarations of the custom import", async () => {
+      const files = await importOpenApiFiles({
+        data: JSON.stringify(specs),
+        format: "json",
+        customImport: `
+          import { HttpClient, RequestConfig } from "../Http";
+          export const clientInstance = new HttpClient();
+        `,
+        customGenerator: ({ componentName, typeNames }) =>
+          `export const ${componentName.toLowerCase()} = (config?: RequestConfig) => clientInstance.get<${
+            typeNames.response
+          }>(config);\n`,
+      });
+
+      expect(files["client.ts"]).toMatchInlineSnapshot(`
+        "/* Generated by oats-generator */
+
+        import { HttpClient } from \\"../Http\\";
+
+        export const clientInstance = new HttpClient();
+        "
+      `);
+      expect(files["default.ts"]).toMatchInlineSnapshot(`
+        "/* Generated by oats-generator */
+
+        import { RequestConfig } from \\"../Http\\";
+
+        import { Inventory } from \\"./models/Inventory\\";
+        import { clientInstance } from \\"./client\\";
+
+        export interface GetInventoryResponses {
+          /**
+           * ok
+           */
+          200: Inventory;
+        }
+        export const getinventory = (config?: RequestConfig) => clientInstance.get<Inventory>(config);
+        "
+      `);
+      expect(files["index.ts"].match(/client/g)).toHaveLength(1);
+    });
+
+    it("should import the values referenced in template literals", async () => {
+      const files = await importOpenApiFiles({
+        data: JSON.stringify(specs),
+        format: "json",
+        enumStyle: "const",
+        customGenerator: ({ componentName, route }) =>
+          `export const ${componentName.toLowerCase()} = () => fetch(\`\${defaultServerUrl}${route}?status=\${
+            PetStatus.Available
+          }&sort=\${\`\${"name"}\`}\`);\n`,
+      });
+
+      expect(files["pets.ts"]).toContain('import { defaultServerUrl } from "./servers";');
+      expect(files["pets.ts"]).toContain('import { PetStatus } from "./models/PetStatus";');
+      expect(files["default.ts"]).toContain('import { defaultServerUrl } from "./servers";');
+    });
+
+    it("should not import the schemas named after a global used as a value", async () => {
+      const files = await importOpenApiFiles({
+        data: JSON.stringify({
+          openapi: "3.0.0",
+          info: { title: "Petstore", version: "1.0.0" },
+          paths: {
+            "/pet": {
+              get: {
+                operationId: "getPet",
+                tags: ["pets"],
+                responses: {
+                  200: {
+                    description: "ok",
+                    content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } },
+                  },
+                  default: {
+                    description: "error",
+                    content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+                  },
+                },
               },
             },
           },
-        },
-      };
+          components: {
+            schemas: {
+              Pet: {
+                oneOf: [{ $ref: "#/components/schemas/Cat" }, { $ref: "#/components/schemas/Dog" }],
+                discriminator: { propertyName: "petType" },
+              },
+              Cat: { type: "object", required: ["petType"], properties: { petType: { type: "string" } } },
+              Dog: { type: "object", required: ["petType"], properties: { petType: { type: "string" } } },
+              Error: { type: "object", properties: { message: { type: "string" } } },
+            },
+          },
+        }),
+        format: "json",
+      });
 
-      expect(generateResponsesDefinition(responses)).toMatchInlineSnapshot(`
-                                                                        "
-                                                                        /**
-                                                                         * Job is starting
-                                                                         */
-                                                                        export type JobRunResponse = {
-                                                                          /**
-                                                                           * ID of the job execution
-                                                                           */
-                                                                          executionID?: string;
-                                                                        } & ExecutionID;
-                                                                        "
-                                                      `);
+      expect(files["models/matchPet.ts"]).toContain("throw new Error(");
+      expect(files["models/matchPet.ts"]).not.toMatch(/import .*\bError\b/);
+      expect(files["models/matchPet.ts"]).toContain('import { Pet } from "./Pet";');
+      expect(files["pets.ts"]).toContain('import { Error } from "./models/Error";');
     });
+  });
 
-    it("should declare a a type for union object", () => {
-      const responses: ComponentsObject["responses"] = {
-        JobRun: {
-          description: "Job is starting",
-          content: {
-            "application/json": {
-              schema: {
-                oneOf: [
-                  {
-                    type: "object",
-                    properties: {
-                      executionID: {
-                        description: "ID of the job execution",
-                        type: "string",
-                      },
-                    },
-                  },
-                  { $ref: "#/components/schemas/ExecutionID" },
-                ],
-              },
+  describe("servers", () => {
+    it("should name the servers after their description", () => {
+      expect(getServerName({ url: "/", description: "Production server" })).toEqual("production");
+      expect(getServerName({ url: "/", description: "Local staging environment" })).toEqual("localStaging");
+      expect(getServerName({ url: "/", description: "Sandbox", "x-name": "default" })).toEqual("_default");
+      expect(getServerName({ url: "/" })).toBeUndefined();
+    });
+
+    it("should generate the servers", () => {
+      expect(
+        generateServersDefinition([
+          { url: "https://api.pets.com/v1", description: "Production server" },
+          { url: "/v1" },
+          { url: "http://localhost:3000", description: "Production" },
+        ]),
+      ).toMatchInlineSnapshot(`
+        "
+        /**
+         * Servers of the api (with the default value of their variables)
+         */
+        export const servers = {
+          /**
+           * Production server
+           */
+          production: \\"https://api.pets.com/v1\\",
+          server2: \\"/v1\\",
+          /**
+           * Production
+           */
+          production2: \\"http://localhost:3000\\",
+        } as const;
+
+        export const defaultServerUrl = servers.production;
+        "
+      `);
+    });
+
+    it("should generate a server url builder with the variables", () => {
+      expect(
+        generateServersDefinition([
+          {
+            url: "https://{region}.api.pets.com:{port}/v1",
+            description: "Production server",
+            variables: {
+              region: { default: "eu", enum: ["eu", "us"], description: "Region of the datacenter" },
+              port: { default: "443" },
             },
           },
-        },
+          {
+            url: "https://{region}.sandbox.pets.com/v1",
+            description: "Sandbox",
+            variables: { region: { default: "eu", enum: ["eu", "asia"] } },
+          },
+        ]),
+      ).toMatchInlineSnapshot(`
+        "
+        /**
+         * Servers of the api (with the default value of their variables)
+         */
+        export const servers = {
+          /**
+           * Production server
+           */
+          production: \\"https://eu.api.pets.com:443/v1\\",
+          /**
+           * Sandbox
+           */
+          sandbox: \\"https://eu.sandbox.pets.com/v1\\",
+        } as const;
+
+        export const defaultServerUrl = servers.production;
+
+        export interface ServerVariables {
+          /**
+           * Region of the datacenter
+           * 
+           * @default \\"eu\\"
+           */
+          region?: \\"eu\\" | \\"us\\" | \\"asia\\";
+          /**
+           * @default \\"443\\"
+           */
+          port?: string;
+        }
+
+        const serverTemplates: { [server in keyof typeof servers]: { url: string; defaults: ServerVariables } } = {
+          production: { url: \\"https://{region}.api.pets.com:{port}/v1\\", defaults: {\\"region\\":\\"eu\\",\\"port\\":\\"443\\"} },
+          sandbox: { url: \\"https://{region}.sandbox.pets.com/v1\\", defaults: {\\"region\\":\\"eu\\"} },
+        };
+
+        /**
+         * Build the url of a server (\`production\` by default) with the given variables
+         *
+         * @param variables value of the variables, their default value is used if missing
+         * @param server
+         */
+        export const buildServerUrl = (variables: ServerVariables = {}, server: keyof typeof servers = \\"production\\") =>
+          serverTemplates[server].url.replace(
+            /{([^{}]+)}/g,
+            (_, name: keyof ServerVariables) => variables[name] || serverTemplates[server].defaults[name] || \\"\\",
+          );
+        "
+      `);
+    });
+
+    it("should use the base as default server url", () => {
+      expect(generateServersDefinition([{ url: "https://api.pets.com/v1" }], `{ getConfig("base") }`))
+        .toMatchInlineSnapshot(`
+        "
+        /**
+         * Servers of the api (with the default value of their variables)
+         */
+        export const servers = {
+          server1: \\"https://api.pets.com/v1\\",
+        } as const;
+
+        export const defaultServerUrl = getConfig(\\"base\\");
+        "
+      `);
+      expect(generateServersDefinition([], `"http://my-pet-store.com"`)).toMatchInlineSnapshot(`
+        "
+        export const defaultServerUrl = \\"http://my-pet-store.com\\";
+        "
+      `);
+      expect(generateServersDefinition([])).toEqual("");
+    });
+
+    it("should expose the servers overriding the ones of the spec", () => {
+      const operation: OperationObject = {
+        operationId: "listPets",
+        responses: { 200: { description: "ok" } },
       };
+      const servers = [{ url: "https://files.pets.com" }];
 
-      expect(generateResponsesDefinition(responses)).toMatchInlineSnapshot(`
-                                                                        "
-                                                                        /**
-                                                                         * Job is starting
-                                                                         */
-                                                                        export type JobRunResponse = {
-                                                                          /**
-                                                                           * ID of the job execution
-                                                                           */
-                                                                          executionID?: string;
-                                                                        } | ExecutionID;
-                                                                        "
-                                                      `);
+      expect(generateRestfulComponent(operation, "get", "/pets", []).component.servers).toBeUndefined();
+      expect(
+        generateRestfulComponent({ ...operation, operationId: "uploadPhoto", servers }, "post", "/photos", []).component
+          .servers,
+      ).toEqual(servers);
+      expect(
+        generateRestfulComponent(
+          { ...operation, operationId: "listPhotos" },
+          "get",
+          "/photos",
+          [],
+          [],
+          undefined,
+          undefined,
+          createContext({ servers }),
+        ).component.servers,
+      ).toEqual(servers);
+    });
+  });
+
+  describe("security", () => {
+    it("should generate the security schemes", () => {
+      expect(
+        generateSecuritySchemesDefinition({
+          api_key: { type: "apiKey", name: "X-API-Key", in: "header" },
+          petstore_auth: {
+            type: "oauth2",
+            flows: { clientCredentials: { tokenUrl: "https://petstore/token", scopes: { "read:pets": "read" } } },
+          },
+        }),
+      ).toMatchInlineSnapshot(`
+        "
+        export const securitySchemes = {\\"api_key\\":{\\"type\\":\\"apiKey\\",\\"name\\":\\"X-API-Key\\",\\"in\\":\\"header\\"},\\"petstore_auth\\":{\\"type\\":\\"oauth2\\",\\"flows\\":{\\"clientCredentials\\":{\\"tokenUrl\\":\\"https://petstore/token\\",\\"scopes\\":{\\"read:pets\\":\\"read\\"}}}}} as const;
+
+        export type SecuritySchemes = typeof securitySchemes;
+        "
+      `);
+    });
+
+    it("should not generate anything without security schemes", () => {
+      expect(generateSecuritySchemesDefinition({})).toEqual("");
+    });
+
+    it("should expose the security requirements of the operations", () => {
+      const operation: OperationObject = {
+        operationId: "listPets",
+        responses: { 200: { description: "ok" } },
+      };
+      const context = createContext({ security: [{ api_key: [] }] });
+
+      expect(
+        generateRestfulComponent(operation, "get", "/pets", [], [], undefined, undefined, context).component.security,
+      ).toEqual([{ api_key: [] }]);
+      expect(
+        generateRestfulComponent(
+          { ...operation, operationId: "addPet", security: [{ petstore_auth: ["write:pets"] }] },
+          "post",
+          "/pets",
+          [],
+          [],
+          undefined,
+          undefined,
+          context,
+        ).component.security,
+      ).toEqual([{ petstore_auth: ["write:pets"] }]);
+      expect(
+        generateRestfulComponent(
+          { ...operation, operationId: "ping", security: [] },
+          "get",
+          "/ping",
+          [],
+          [],
+          undefined,
+          undefined,
+          context,
+        ).component.security,
+      ).toEqual([]);
+    });
+  });
+
+  describe("stripDeleteParam", () => {
+    const operation: OperationObject = {
+      operationId: "deletePet",
+      parameters: [
+        { name: "owner", in: "path", required: true, schema: { type: "string" } },
+        { name: "pet-id", in: "path", required: true, schema: { type: "integer" } },
+      ],
+      responses: { 204: { description: "deleted" } },
+    };
+
+    it("should strip the last param of a delete operation by default", () => {
+      const { component } = generateRestfulComponent(operation, "delete", "/owners/{owner}/pets/{pet-id}", []);
+
+      expect(component.route).toEqual(`/owners/\${encodeURIComponent(owner)}/pets`);
+      expect(component.paramsTypes).toEqual("owner: string");
+      expect(component.deleteParam).toEqual({ name: "petId", required: true, type: "number" });
+    });
+
+    it("should strip an undeclared last param of a delete operation", () => {
+      const { component } = generateRestfulComponent(
+        { ...operation, operationId: "deleteOwner", parameters: [] },
+        "delete",
+        "/owners/{id}",
+        [],
+      );
+
+      expect(component.route).toEqual("/owners");
+      expect(component.paramsTypes).toEqual("");
+      expect(component.deleteParam).toBeUndefined();
+    });
+
+    it("should keep the last param of a delete operation with stripDeleteParam: false", () => {
+      const { component } = generateRestfulComponent(
+        operation,
+        "delete",
+        "/owners/{owner}/pets/{pet-id}",
+        [],
+        [],
+        undefined,
+        undefined,
+        createContext({ stripDeleteParam: false }),
+      );
+
+      expect(component.route).toEqual(`/owners/\${encodeURIComponent(owner)}/pets/\${encodeURIComponent(petId)}`);
+      expect(component.paramsTypes).toEqual("owner: string, petId: number");
+      expect(component.deleteParam).toBeUndefined();
+    });
+  });
+
+  describe("header and cookie params", () => {
+    const operation: OperationObject = {
+      operationId: "listPets",
+      parameters: [
+        {
+          name: "X-Tenant-Id",
+          in: "header",
+          required: true,
+          description: "Tenant of the pets",
+          schema: { type: "string" },
+        },
+        { name: "X-Request-Id", in: "header", schema: { type: "string", format: "uuid" } },
+        { name: "Accept", in: "header", schema: { type: "string" } },
+        { name: "session", in: "cookie", required: true, schema: { type: "string" } },
+      ],
+      responses: { 200: { description: "ok", content: { "application/json": { schema: { type: "string" } } } } },
+    };
+
+    it("should generate the header and cookie params interfaces", () => {
+      const { output, component } = generateRestfulComponent(operation, "get", "/pets", []);
+
+      expect(output).toMatchInlineSnapshot(`
+        "
+              export interface ListPetsResponses {
+                /**
+           * ok
+           */
+          200: string;
+              }
+            
+              export interface ListPetsHeaderParams {
+                /**
+           * Tenant of the pets
+           */
+          \\"X-Tenant-Id\\": string;
+          /**
+           * @format uuid
+           */
+          \\"X-Request-Id\\"?: string;
+              }
+            
+              export interface ListPetsCookieParams {
+                session: string;
+              }
+            "
+      `);
+      expect(component.typeNames).toEqual({
+        response: "string",
+        responses: "ListPetsResponses",
+        query: "any",
+        body: "any",
+        headers: "ListPetsHeaderParams",
+        cookies: "ListPetsCookieParams",
+      });
+    });
+
+    it("should not declare the interfaces without header or cookie params", () => {
+      const { output, component } = generateRestfulComponent(
+        { ...operation, parameters: [{ name: "Accept", in: "header", schema: { type: "string" } }] },
+        "get",
+        "/pets",
+        [],
+      );
+
+      expect(output).not.toContain("HeaderParams");
+      expect(component.typeNames.headers).toBeUndefined();
+      expect(component.typeNames.cookies).toBeUndefined();
     });
   });
 
@@ -816,6 +3105,109 @@ describe("scripts/import-open-api", () => {
 
       expect(getResReqTypes(responses)).toEqual("FieldListResponse");
     });
+
+    it("should return the type of a vendor JSON content", () => {
+      const responses: Array<[string, ResponseObject]> = [
+        [
+          "200",
+          {
+            description: "A problem",
+            content: {
+              "text/plain": { schema: { type: "string" } },
+              "application/problem+json": { schema: { $ref: "#/components/schemas/Problem" } },
+            },
+          },
+        ],
+      ];
+
+      expect(getResReqTypes(responses)).toEqual("Problem");
+    });
+
+    it("should return the type of a text/plain response", () => {
+      const responses: Array<[string, ResponseObject]> = [
+        ["200", { description: "A text", content: { "text/plain": {} } }],
+        ["201", { description: "A binary", content: { "image/png": {} } }],
+      ];
+
+      expect(getResReqTypes(responses)).toEqual("string | Blob");
+    });
+
+    it("should type the binary fields of a multipart/form-data request body as Blob", () => {
+      const requestBody: RequestBodyObject = {
+        content: {
+          "multipart/form-data": {
+            schema: {
+              type: "object",
+              required: ["file"],
+              properties: {
+                file: { type: "string", format: "binary" },
+                description: { type: "string" },
+              },
+            },
+          },
+        },
+      };
+
+      expect(getResReqTypes([["", requestBody]])).toMatchInlineSnapshot(`
+        "{
+          /**
+           * @format binary
+           */
+          file: Blob;
+          description?: string;
+        }"
+      `);
+    });
+
+    it("should follow the preferred content types", () => {
+      const requestBody: RequestBodyObject = {
+        content: {
+          "application/json": { schema: { $ref: "#/components/schemas/Pet" } },
+          "application/x-www-form-urlencoded": { schema: { $ref: "#/components/schemas/PetForm" } },
+        },
+      };
+
+      expect(
+        getResReqTypes([["", requestBody]], createContext({ contentTypes: ["application/x-www-form-urlencoded"] })),
+      ).toEqual("PetForm");
+    });
+  });
+
+  describe("getContentType", () => {
+    ([
+      { content: { "application/json": {} }, expected: "application/json" },
+      { content: { "application/json;charset=utf-8": {} }, expected: "application/json;charset=utf-8" },
+      { content: { "text/plain": {}, "application/vnd.pet+json": {} }, expected: "application/vnd.pet+json" },
+      { content: { "application/octet-stream": {}, "multipart/form-data": {} }, expected: "multipart/form-data" },
+      { content: { "image/png": {}, "image/jpeg": {} }, expected: "image/png" },
+      { content: {}, expected: undefined },
+    ] as Array<{ content: ContentObject; expected?: string }>).forEach(({ content, expected }) =>
+      it(`should return ${expected} for ${Object.keys(content).join(", ") || "an empty content"}`, () => {
+        expect(getContentType(content)).toEqual(expected);
+      }),
+    );
+
+    it("should support wildcard preferences", () => {
+      expect(getContentType({ "application/xml": {}, "image/png": {} }, ["image/*"])).toEqual("image/png");
+      expect(getContentType({ "application/xml": {}, "image/png": {} }, ["*/*"])).toEqual("application/xml");
+    });
+
+    it("should expose the chosen content types of an operation", () => {
+      const operation: OperationObject = {
+        operationId: "uploadImage",
+        requestBody: {
+          content: { "multipart/form-data": { schema: { type: "object", properties: { file: { type: "string" } } } } },
+        },
+        responses: {
+          200: { description: "ok", content: { "application/problem+json": { schema: { type: "string" } } } },
+        },
+      };
+
+      expect(generateRestfulComponent(operation, "post", "/pets", []).component.contentTypes).toEqual({
+        response: "application/problem+json",
+        body: "multipart/form-data",
+      });
+    });
   });
 
   describe("generateGetComponent", () => {